@@ -0,0 +1,88 @@
+// MarkMate service worker: keeps the app shell cached for offline use,
+// shows deadline reminders and brings the app to the front when one is
+// clicked.
+
+// Written by the build (see vite.config.ts); missing in dev, where nothing
+// is cached so the dev server stays in charge.
+try {
+  importScripts("/sw-manifest.js");
+} catch {
+  // dev server
+}
+const PRECACHE = self.__PRECACHE;
+const CACHE = PRECACHE ? `markmate-${PRECACHE.version}` : null;
+
+self.addEventListener("install", (event) => {
+  if (!CACHE) {
+    self.skipWaiting();
+    return;
+  }
+  // A new build waits until the page accepts the update prompt
+  event.waitUntil(
+    caches.open(CACHE).then((cache) => cache.addAll(PRECACHE.files))
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const keys = await caches.keys();
+      await Promise.all(
+        keys
+          .filter((k) => k.startsWith("markmate-") && k !== CACHE)
+          .map((k) => caches.delete(k))
+      );
+      await self.clients.claim();
+    })()
+  );
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "skip-waiting") self.skipWaiting();
+});
+
+// Cache first: the shell for page loads, then any same-origin file
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (!CACHE || request.method !== "GET") return;
+  const url = new URL(request.url);
+  // Same-origin sync server (behind a proxy) must never be served stale
+  if (url.origin !== self.location.origin || url.pathname.startsWith("/api/"))
+    return;
+  event.respondWith(
+    (async () => {
+      const cache = await caches.open(CACHE);
+      if (request.mode === "navigate") {
+        const shell = await cache.match("/");
+        return shell ?? fetch(request);
+      }
+      const hit = await cache.match(request);
+      if (hit) return hit;
+      const res = await fetch(request);
+      if (res.ok) cache.put(request, res.clone());
+      return res;
+    })()
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const courseId = event.notification.data?.courseId;
+  event.waitUntil(
+    (async () => {
+      const windows = await self.clients.matchAll({
+        type: "window",
+        includeUncontrolled: true,
+      });
+      const client = windows[0];
+      if (client) {
+        await client.focus();
+        if (courseId) client.postMessage({ type: "open-course", courseId });
+        return;
+      }
+      await self.clients.openWindow(
+        courseId ? `/?course=${encodeURIComponent(courseId)}` : "/"
+      );
+    })()
+  );
+});
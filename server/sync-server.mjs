@@ -0,0 +1,361 @@
+// MarkMate sync server: accounts, token auth and a small REST API for
+// courses, assignments, terms and grading scales, so one account's data can
+// follow it between browsers. Everything is kept in a single JSON file and
+// there are no dependencies beyond Node itself.
+//
+//   npm run sync-server
+//   PORT=8787 MARKMATE_DATA=./markmate-sync.json node server/sync-server.mjs
+//
+// Every record carries a version. Writes name the version they were based
+// on (`baseVersion`); a stale base gets 409 with the server's copy, which the
+// app shows as a conflict. Deletes leave a tombstone so other devices hear
+// about them from GET /api/changes.
+import { createServer } from "node:http";
+import { existsSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import {
+  createHash,
+  randomBytes,
+  scryptSync,
+  timingSafeEqual,
+} from "node:crypto";
+
+const PORT = Number(process.env.PORT ?? 8787);
+const DATA_FILE = process.env.MARKMATE_DATA ?? "markmate-sync.json";
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const USERNAME = /^[a-z0-9_.-]{2,40}$/i;
+const MIN_PASSWORD = 8;
+const TOKEN_TTL_MS = 90 * 24 * 3600_000; // a device signs in again after this
+const MAX_TOKENS = 10; // signed-in devices per account; the oldest goes first
+
+// { accounts: { [username]: { salt, hash, tokens, seq, records } } }, where
+// tokens is [{ hash, expiresAt }] and records maps "course:<id>",
+// "assignment:<courseId>:<id>", "term:<id>" and "scale:<id>" to { kind, id,
+// courseId?, index, value, version, modifiedAt, seq }. A null value is a
+// deleted record. Accounts have no prototype, so usernames like "__proto__"
+// or "constructor" are plain keys.
+const db = existsSync(DATA_FILE)
+  ? JSON.parse(readFileSync(DATA_FILE, "utf8"))
+  : { accounts: {} };
+db.accounts = Object.assign(Object.create(null), db.accounts);
+// Files from before tokens expired hold bare hashes
+for (const account of Object.values(db.accounts))
+  account.tokens = account.tokens.map((t) =>
+    typeof t === "string"
+      ? { hash: t, expiresAt: Date.now() + TOKEN_TTL_MS }
+      : t
+  );
+
+// Written to a temp file first so a crash never leaves half a file
+function save() {
+  writeFileSync(`${DATA_FILE}.tmp`, JSON.stringify(db));
+  renameSync(`${DATA_FILE}.tmp`, DATA_FILE);
+}
+
+class HttpError extends Error {
+  constructor(status, message, extra = {}) {
+    super(message);
+    this.status = status;
+    this.extra = extra;
+  }
+}
+
+// ==========================
+// Accounts & tokens
+// ==========================
+const sha256 = (s) => createHash("sha256").update(s).digest("hex");
+const hashPassword = (password, salt) =>
+  scryptSync(password, salt, 64).toString("hex");
+
+// Tokens are stored hashed; the plain token only ever goes to the client.
+// Expired tokens are dropped here, and the oldest beyond MAX_TOKENS.
+function issueToken(account) {
+  const token = randomBytes(32).toString("hex");
+  const now = Date.now();
+  account.tokens = [
+    ...account.tokens.filter((t) => t.expiresAt > now).slice(-(MAX_TOKENS - 1)),
+    { hash: sha256(token), expiresAt: now + TOKEN_TTL_MS },
+  ];
+  return token;
+}
+
+function credentials(body) {
+  const username = String(body.username ?? "").trim();
+  const password = String(body.password ?? "");
+  if (!USERNAME.test(username))
+    throw new HttpError(400, "Username: 2–40 letters, digits, . _ or -");
+  return { username: username.toLowerCase(), password };
+}
+
+function createAccount({ body }) {
+  const { username, password } = credentials(body);
+  if (password.length < MIN_PASSWORD)
+    throw new HttpError(400, `Password: at least ${MIN_PASSWORD} characters`);
+  if (Object.hasOwn(db.accounts, username))
+    throw new HttpError(409, "That username is taken");
+  const salt = randomBytes(16).toString("hex");
+  const account = {
+    salt,
+    hash: hashPassword(password, salt),
+    tokens: [],
+    seq: 0,
+    records: {},
+  };
+  db.accounts[username] = account;
+  const token = issueToken(account);
+  save();
+  return [201, { username, token }];
+}
+
+function signIn({ body }) {
+  const { username, password } = credentials(body);
+  const account = Object.hasOwn(db.accounts, username)
+    ? db.accounts[username]
+    : null;
+  const ok =
+    account &&
+    timingSafeEqual(
+      Buffer.from(hashPassword(password, account.salt), "hex"),
+      Buffer.from(account.hash, "hex")
+    );
+  if (!ok) throw new HttpError(401, "Wrong username or password");
+  const token = issueToken(account);
+  save();
+  return [200, { username, token }];
+}
+
+function signOut({ account, tokenHash }) {
+  account.tokens = account.tokens.filter((t) => t.hash !== tokenHash);
+  save();
+  return [204, null];
+}
+
+function authenticate(req) {
+  const match = /^Bearer (\S+)$/.exec(req.headers.authorization ?? "");
+  const tokenHash = match && sha256(match[1]);
+  const now = Date.now();
+  const account =
+    tokenHash &&
+    Object.values(db.accounts).find((a) =>
+      a.tokens.some((t) => t.hash === tokenHash && t.expiresAt > now)
+    );
+  if (!account) throw new HttpError(401, "Sign in again");
+  return { account, tokenHash };
+}
+
+// ==========================
+// Records
+// ==========================
+const live = (account, kind, courseId) =>
+  Object.values(account.records)
+    .filter(
+      (r) =>
+        r.kind === kind &&
+        r.value !== null &&
+        (courseId === undefined || r.courseId === courseId)
+    )
+    .sort((a, b) => a.index - b.index)
+    .map((r) => r.value);
+
+function listChanges({ account, query }) {
+  const since = Number(query.get("since") ?? 0) || 0;
+  const records = Object.values(account.records)
+    .filter((r) => r.seq > since)
+    .sort((a, b) => a.seq - b.seq);
+  return [200, { seq: account.seq, records }];
+}
+
+function getCourse({ account, params: [id] }) {
+  const course = account.records[`course:${id}`]?.value;
+  if (!course) throw new HttpError(404, "No such course");
+  return [200, { ...course, assignments: live(account, "assignment", id) }];
+}
+
+function put(account, record) {
+  account.seq += 1;
+  account.records[keyOf(record)] = {
+    ...record,
+    modifiedAt: new Date().toISOString(),
+    seq: account.seq,
+  };
+  return account.records[keyOf(record)];
+}
+
+const keyOf = (r) =>
+  r.kind === "assignment"
+    ? `assignment:${r.courseId}:${r.id}`
+    : `${r.kind}:${r.id}`;
+
+// PUT (value in the body) or DELETE of one record, checked against the
+// version the client last saw. Deleting a course deletes its assignments;
+// their tombstones come back as `cascaded`, so the client can re-create them
+// (say, on undo) from the version the server now has.
+const write = (kind) =>
+  function ({ account, method, params, body, query }) {
+    const [id, courseId] =
+      kind === "assignment" ? [params[1], params[0]] : [params[0], undefined];
+    const key = keyOf({ kind, id, courseId });
+    const current = account.records[key];
+    const base = Number(
+      method === "DELETE" ? query.get("baseVersion") : body.baseVersion
+    );
+    if (!Number.isInteger(base) || base < 0)
+      throw new HttpError(400, "baseVersion: expected the version you edited");
+    if ((current?.version ?? 0) !== base)
+      throw new HttpError(409, "Changed on another device", {
+        current: current ?? null,
+      });
+
+    let value = null;
+    if (method === "PUT") {
+      value = body.value;
+      if (typeof value !== "object" || value === null || value.id !== id)
+        throw new HttpError(400, `value: expected a ${kind} with id "${id}"`);
+      if (kind === "course") delete value.assignments;
+    }
+    const index = Number.isInteger(body.index)
+      ? body.index
+      : current?.index ?? 0;
+    const record = put(account, {
+      kind,
+      id,
+      courseId,
+      index,
+      value,
+      version: base + 1,
+    });
+    const cascaded = [];
+    if (kind === "course" && value === null)
+      for (const r of Object.values(account.records))
+        if (r.kind === "assignment" && r.courseId === id && r.value !== null)
+          cascaded.push(
+            put(account, { ...r, value: null, version: r.version + 1 })
+          );
+    save();
+    return [200, { record, cascaded }];
+  };
+
+// ==========================
+// HTTP
+// ==========================
+const ID = "([^/]+)";
+const routes = [
+  ["POST", "/api/accounts", createAccount, false],
+  ["POST", "/api/sessions", signIn, false],
+  ["DELETE", "/api/sessions", signOut],
+  ["GET", "/api/changes", listChanges],
+  ["GET", "/api/courses", ({ account }) => [200, live(account, "course")]],
+  ["GET", `/api/courses/${ID}`, getCourse],
+  ["PUT", `/api/courses/${ID}`, write("course")],
+  ["DELETE", `/api/courses/${ID}`, write("course")],
+  [
+    "GET",
+    `/api/courses/${ID}/assignments`,
+    ({ account, params: [id] }) => [200, live(account, "assignment", id)],
+  ],
+  ["PUT", `/api/courses/${ID}/assignments/${ID}`, write("assignment")],
+  ["DELETE", `/api/courses/${ID}/assignments/${ID}`, write("assignment")],
+  ["GET", "/api/terms", ({ account }) => [200, live(account, "term")]],
+  ["PUT", `/api/terms/${ID}`, write("term")],
+  ["DELETE", `/api/terms/${ID}`, write("term")],
+  ["GET", "/api/scales", ({ account }) => [200, live(account, "scale")]],
+  ["PUT", `/api/scales/${ID}`, write("scale")],
+  ["DELETE", `/api/scales/${ID}`, write("scale")],
+].map(([method, path, handler, auth = true]) => ({
+  method,
+  pattern: new RegExp(`^${path}$`),
+  handler,
+  auth,
+}));
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on("data", (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, "Request too large"));
+        req.destroy();
+      } else chunks.push(chunk);
+    });
+    req.on("end", () => {
+      const text = Buffer.concat(chunks).toString("utf8");
+      let body;
+      try {
+        body = text ? JSON.parse(text) : {};
+      } catch {
+        return reject(new HttpError(400, "Body is not valid JSON"));
+      }
+      if (typeof body !== "object" || body === null || Array.isArray(body))
+        reject(new HttpError(400, "Body must be a JSON object"));
+      else resolve(body);
+    });
+    req.on("error", reject);
+  });
+}
+
+// The app is usually served from another origin; auth is by header, not
+// cookies, so any origin may call in
+const CORS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "Authorization, Content-Type",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+};
+
+function send(res, status, data) {
+  res.writeHead(status, {
+    ...CORS,
+    ...(data === null ? {} : { "Content-Type": "application/json" }),
+  });
+  res.end(data === null ? undefined : JSON.stringify(data));
+}
+
+function decodePathPart(part) {
+  try {
+    return decodeURIComponent(part);
+  } catch {
+    throw new HttpError(400, "Malformed path");
+  }
+}
+
+const server = createServer(async (req, res) => {
+  if (req.method === "OPTIONS") return send(res, 204, null);
+  const url = new URL(req.url ?? "/", "http://localhost");
+  try {
+    let params = null;
+    const route = routes.find((r) => {
+      if (r.method !== req.method) return false;
+      const m = r.pattern.exec(url.pathname);
+      params = m && m.slice(1).map(decodePathPart);
+      return m !== null;
+    });
+    if (!route) throw new HttpError(404, "Not found");
+    const session = route.auth ? authenticate(req) : {};
+    const body =
+      req.method === "POST" || req.method === "PUT" ? await readBody(req) : {};
+    const [status, data] = route.handler({
+      ...session,
+      method: req.method,
+      params,
+      body,
+      query: url.searchParams,
+    });
+    send(res, status, data);
+  } catch (e) {
+    if (e instanceof HttpError)
+      send(res, e.status, { error: e.message, ...e.extra });
+    else {
+      console.error(e);
+      send(res, 500, { error: "Server error" });
+    }
+  }
+});
+
+// PORT=0 picks a free port; the one in use is logged
+server.listen(PORT, () =>
+  console.log(
+    `MarkMate sync server on http://localhost:${
+      server.address().port
+    } (${DATA_FILE})`
+  )
+);
@@ -0,0 +1,141 @@
+import { createHash } from "node:crypto";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startServer } from "./test-server.mjs";
+
+const sha256 = (s) => createHash("sha256").update(s).digest("hex");
+
+let server;
+beforeAll(async () => {
+  server = await startServer({
+    accounts: {
+      old: {
+        salt: "00",
+        hash: "00",
+        tokens: [
+          { hash: sha256("expired"), expiresAt: Date.now() - 1000 },
+          sha256("legacy"),
+        ],
+        seq: 0,
+        records: {},
+      },
+    },
+  });
+});
+afterAll(() => server?.stop());
+
+async function call(method, path, { token, body } = {}) {
+  const res = await fetch(`${server.url}${path}`, {
+    method,
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(body ? { "Content-Type": "application/json" } : {}),
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  return { status: res.status, data: await res.json().catch(() => null) };
+}
+
+const signIn = async (username) =>
+  (
+    await call("POST", "/api/sessions", {
+      body: { username, password: "correct horse" },
+    })
+  ).data.token;
+
+describe("sessions", () => {
+  beforeAll(() =>
+    call("POST", "/api/accounts", {
+      body: { username: "ada", password: "correct horse" },
+    })
+  );
+
+  it("signs a device out", async () => {
+    const token = await signIn("ada");
+    expect((await call("GET", "/api/terms", { token })).status).toBe(200);
+    expect((await call("DELETE", "/api/sessions", { token })).status).toBe(204);
+    expect((await call("GET", "/api/terms", { token })).status).toBe(401);
+  });
+
+  it("keeps only the newest sign-ins", async () => {
+    const tokens = [];
+    for (let i = 0; i < 11; i++) tokens.push(await signIn("ada"));
+    expect((await call("GET", "/api/terms", { token: tokens[0] })).status).toBe(
+      401
+    );
+    expect((await call("GET", "/api/terms", { token: tokens[1] })).status).toBe(
+      200
+    );
+    expect(
+      (await call("GET", "/api/terms", { token: tokens[10] })).status
+    ).toBe(200);
+  });
+
+  it("rejects expired tokens and keeps ones saved before expiry", async () => {
+    expect((await call("GET", "/api/terms", { token: "expired" })).status).toBe(
+      401
+    );
+    expect((await call("GET", "/api/terms", { token: "legacy" })).status).toBe(
+      200
+    );
+  });
+});
+
+describe("tombstones", () => {
+  let token;
+  const course = { id: "c1", name: "Statics" };
+  const quiz = { id: "a1", title: "Quiz", weight: 10 };
+  beforeAll(async () => {
+    token = (
+      await call("POST", "/api/accounts", {
+        body: { username: "grace", password: "correct horse" },
+      })
+    ).data.token;
+    await call("PUT", "/api/courses/c1", {
+      token,
+      body: { value: course, baseVersion: 0 },
+    });
+    await call("PUT", "/api/courses/c1/assignments/a1", {
+      token,
+      body: { value: quiz, baseVersion: 0 },
+    });
+  });
+
+  it("deletes a course's assignments with it", async () => {
+    const { status, data } = await call(
+      "DELETE",
+      "/api/courses/c1?baseVersion=1",
+      { token }
+    );
+    expect(status).toBe(200);
+    expect(data.record).toMatchObject({ id: "c1", value: null, version: 2 });
+    expect(data.cascaded).toMatchObject([
+      { kind: "assignment", courseId: "c1", id: "a1", value: null, version: 2 },
+    ]);
+    const changes = await call("GET", "/api/changes?since=0", { token });
+    expect(changes.data.records.map((r) => [r.id, r.value])).toEqual([
+      ["c1", null],
+      ["a1", null],
+    ]);
+  });
+
+  it("re-creates from the tombstone's version, not an older one", async () => {
+    const stale = await call("PUT", "/api/courses/c1/assignments/a1", {
+      token,
+      body: { value: quiz, baseVersion: 1 },
+    });
+    expect(stale.status).toBe(409);
+    expect(stale.data.current).toMatchObject({ value: null, version: 2 });
+
+    await call("PUT", "/api/courses/c1", {
+      token,
+      body: { value: course, baseVersion: 2 },
+    });
+    const { status, data } = await call(
+      "PUT",
+      "/api/courses/c1/assignments/a1",
+      { token, body: { value: quiz, baseVersion: 2 } }
+    );
+    expect(status).toBe(200);
+    expect(data.record).toMatchObject({ value: quiz, version: 3 });
+  });
+});
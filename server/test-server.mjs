@@ -0,0 +1,39 @@
+// Test helper: runs the sync server on a free port with its own data file.
+// Also a vitest globalSetup, so app tests can reach one through
+// inject("syncServerUrl").
+import { spawn } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// Resolves to { url, stop } once the server listens; `db` seeds its file
+export function startServer(db) {
+  const dir = mkdtempSync(join(tmpdir(), "markmate-sync-"));
+  const file = join(dir, "data.json");
+  if (db) writeFileSync(file, JSON.stringify(db));
+  const child = spawn(
+    process.execPath,
+    [new URL("./sync-server.mjs", import.meta.url).pathname],
+    {
+      env: { ...process.env, PORT: "0", MARKMATE_DATA: file },
+      stdio: ["ignore", "pipe", "inherit"],
+    }
+  );
+  const stop = () => {
+    child.kill();
+    rmSync(dir, { recursive: true, force: true });
+  };
+  return new Promise((resolve, reject) => {
+    child.once("exit", (code) => reject(new Error(`server exited (${code})`)));
+    child.stdout.once("data", (chunk) => {
+      const port = /localhost:(\d+)/.exec(String(chunk))?.[1];
+      resolve({ url: `http://localhost:${port}`, stop });
+    });
+  });
+}
+
+export default async function setup({ provide }) {
+  const { url, stop } = await startServer();
+  provide("syncServerUrl", url);
+  return stop;
+}
@@ -1,6 +1,4 @@
 import React, { useMemo, useState, useEffect } from "react";
-import { create } from "zustand";
-import { persist } from "zustand/middleware";
 import {
   Plus,
   CalendarDays,
@@ -11,6 +9,36 @@ import {
   ArrowLeft,
   Gauge,
   Info,
+  Target,
+  Layers,
+  GraduationCap,
+  Archive,
+  ArchiveRestore,
+  Save,
+  Undo2,
+  Redo2,
+  FlaskConical,
+  TrendingUp,
+  Activity,
+  ChevronLeft,
+  ChevronRight,
+  Bell,
+  BellRing,
+  Clock,
+  Download,
+  X,
+  Cloud,
+  CloudAlert,
+  CloudOff,
+  RefreshCw,
+  History,
+  Lock,
+  KeyRound,
+  ClipboardList,
+  ListChecks,
+  Repeat,
+  LayoutTemplate,
+  Copy,
 } from "lucide-react";
 import {
   RadialBarChart,
@@ -19,93 +47,159 @@ import {
   PolarAngleAxis,
   Tooltip as RechartsTooltip,
   Cell,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Legend,
 } from "recharts";
+import {
+  decryptBackup,
+  encryptBackup,
+  type EncryptedBackup,
+  isEncryptedBackup,
+  validateBackup,
+} from "./lib/backup";
+import {
+  buildCsv,
+  CSV_FIELD_LABELS,
+  type CsvField,
+  type CsvImportRow,
+  detectWeightFormat,
+  guessCsvField,
+  mapCsvRows,
+  parseCsv,
+  resolveCsvCategories,
+  type WeightFormat,
+} from "./lib/csv";
+import {
+  addDaysISO,
+  DEFAULT_DUE_SETTINGS,
+  displayStatus,
+  type DueSettings,
+  isDone,
+  isOverdue,
+  isValidTimeZone,
+  nextDue,
+  REMINDER_OFFSETS,
+  shortDate,
+  startOfWeekISO,
+  todayISO,
+  toISODate,
+} from "./lib/dates";
+import {
+  applyImport,
+  buildExport,
+  diffImport,
+  type ExportData,
+  type ImportChange,
+  type ImportMode,
+  isObj,
+  STATUSES,
+  validateExport,
+} from "./lib/exportData";
+import {
+  applyWhatIf,
+  calcMetrics,
+  calcProjection,
+  calcTarget,
+  clamp,
+  formatScore,
+  gradePercent,
+  gradeTimeline,
+  normalizeWeightToPercent,
+  parseScore,
+  percentWeight,
+  type ProjectionConfidence,
+  type ScoreFields,
+  scoreFromInputs,
+  scorePatch,
+  uid,
+  weighAssignments,
+  type WeightedAssignment,
+} from "./lib/grades";
+import { buildIcs, findPercent, type IcsEvent, parseIcs } from "./lib/ics";
+import { recurringAssignments, WEEKDAYS } from "./lib/recurring";
+import {
+  REMINDER_HOUR,
+  showReminder,
+  useReminderScheduler,
+  useReminderStore,
+} from "./lib/reminders";
+import {
+  BUILTIN_SCALES,
+  calcCumulativeGpa,
+  calcGpa,
+  courseLetter,
+  DEFAULT_CREDITS,
+  parseScaleTable,
+} from "./lib/scales";
+import {
+  changeOf,
+  connectServer,
+  disconnectServer,
+  localRecords,
+  resolveConflict,
+  startServerSync,
+  type SyncConflict,
+  syncWithServer,
+  useServerSyncStore,
+} from "./lib/serverSync";
+import {
+  applyUpdate,
+  registerServiceWorker,
+  useUpdateStore,
+} from "./lib/serviceWorker";
+import { useSettingsStore } from "./lib/settings";
+import {
+  loadSnapshots,
+  removeSnapshot,
+  type SnapshotReason,
+  startDailySnapshots,
+  useSnapshotStore,
+} from "./lib/snapshots";
+import {
+  backupIsSafe,
+  courseStorage,
+  useRecoveryStore,
+  useStorageStatusStore,
+} from "./lib/storage";
+import { useCourseStore, whenHydrated } from "./lib/store";
+import { parseSyllabus } from "./lib/syllabus";
+import { startTabSync, type SyncChange, useSyncStore } from "./lib/tabSync";
+import {
+  buildTemplateFile,
+  type CourseTemplate,
+  courseTemplate,
+  parseTemplateFile,
+  useTemplateStore,
+} from "./lib/templates";
+import { toastUndo, useToastStore } from "./lib/toasts";
+import type {
+  Assignment,
+  AssignmentStatus,
+  Category,
+  CategoryWeighting,
+  Course,
+  DisplayStatus,
+  ReminderOffset,
+  WhatIfScores,
+} from "./lib/types";
 
-// ==========================
-// Types
-// ==========================
-export type AssignmentStatus =
-  | "not_started"
-  | "in_progress"
-  | "completed"
-  | "overdue";
-
-export type Assignment = {
-  id: string;
-  title: string;
-  dueDate: string | null; // ISO "YYYY-MM-DD" or null
-  weight: number; // user may enter 0–1 or 0–100; we normalize
-  status: AssignmentStatus;
-  grade: number | null; // 0–100
-};
-
-export type Course = {
-  id: string;
-  name: string;
-  assignments: Assignment[];
-};
-
-// ==========================
-// Helpers
-// ==========================
-const uid = () => Math.random().toString(36).slice(2) + Date.now().toString(36);
-const clamp = (n: number, min = 0, max = 100) =>
-  Math.max(min, Math.min(max, n));
-
-// Normalize any weight input: if 0..1 treat as fraction, else percent
-function normalizeWeightToPercent(raw: number): number {
-  if (!isFinite(raw)) return 0;
-  if (raw <= 1) return clamp(raw * 100);
-  return clamp(raw);
-}
-
-function isPast(dateISO: string | null): boolean {
-  if (!dateISO) return false;
-  const today = new Date();
-  const d = new Date(dateISO + "T23:59:59");
-  return d.getTime() < today.getTime();
-}
-
-function nextDue(assignments: Assignment[]): Assignment | null {
-  const upcoming = assignments
-    .filter((a) => a.dueDate && a.status !== "completed")
-    .filter((a) => !isPast(a.dueDate!))
-    .sort((a, b) => (a.dueDate! < b.dueDate! ? -1 : 1));
-  return upcoming[0] ?? null;
-}
-
-function calcMetrics(course: Course) {
-  const weightsCompleted = course.assignments
-    .filter((a) => a.status === "completed")
-    .reduce((s, a) => s + normalizeWeightToPercent(a.weight), 0);
-
-  const weightedEarned = course.assignments.reduce((s, a) => {
-    const w = normalizeWeightToPercent(a.weight);
-    const g = a.grade ?? 0; // missing counts as 0 for CurrentMark
-    return s + (w * g) / 100; // contributes 0..w
-  }, 0);
-
-  const gradeSoFar =
-    weightsCompleted > 0
-      ? (course.assignments
-          .filter((a) => a.status === "completed" && a.grade != null)
-          .reduce(
-            (s, a) => s + (normalizeWeightToPercent(a.weight) * a.grade!) / 100,
-            0
-          ) /
-          weightsCompleted) *
-        100
-      : null;
-
-  const currentMark = weightedEarned; // already 0..100
-  const completedWeighted = weightsCompleted; // 0..100
-  const totalWeights = course.assignments.reduce(
-    (s, a) => s + normalizeWeightToPercent(a.weight),
-    0
-  );
-
-  return { completedWeighted, gradeSoFar, currentMark, totalWeights };
-}
+// Line colours, assigned by a course's position in the course list
+const COURSE_COLORS = [
+  "#0ea5e9",
+  "#f43f5e",
+  "#10b981",
+  "#f59e0b",
+  "#8b5cf6",
+  "#ec4899",
+  "#14b8a6",
+  "#64748b",
+];
+const courseColor = (index: number) =>
+  COURSE_COLORS[index % COURSE_COLORS.length];
 
 // Strip leading zeros except for decimals like 0.5 or the single digit 0
 function stripLeadingZerosInput(s: string): string {
@@ -117,74 +211,6 @@ function stripLeadingZerosInput(s: string): string {
   return s;
 }
 
-// ==========================
-// Store (Zustand + persist)
-// ==========================
-interface StoreState {
-  courses: Course[];
-  addCourse: (name: string) => void;
-  renameCourse: (id: string, name: string) => void;
-  removeCourse: (id: string) => void;
-  addAssignment: (courseId: string, a: Omit<Assignment, "id">) => void;
-  updateAssignment: (
-    courseId: string,
-    aId: string,
-    patch: Partial<Assignment>
-  ) => void;
-  removeAssignment: (courseId: string, aId: string) => void;
-}
-
-export const useCourseStore = create<StoreState>()(
-  persist(
-    (set, get) => ({
-      courses: [],
-      addCourse: (name) =>
-        set((state) => ({
-          courses: [...state.courses, { id: uid(), name, assignments: [] }],
-        })),
-      renameCourse: (id, name) =>
-        set((state) => ({
-          courses: state.courses.map((c) => (c.id === id ? { ...c, name } : c)),
-        })),
-      removeCourse: (id) =>
-        set((state) => ({ courses: state.courses.filter((c) => c.id !== id) })),
-      addAssignment: (courseId, a) =>
-        set((state) => ({
-          courses: state.courses.map((c) =>
-            c.id === courseId
-              ? { ...c, assignments: [...c.assignments, { id: uid(), ...a }] }
-              : c
-          ),
-        })),
-      updateAssignment: (courseId, aId, patch) =>
-        set((state) => ({
-          courses: state.courses.map((c) =>
-            c.id === courseId
-              ? {
-                  ...c,
-                  assignments: c.assignments.map((a) =>
-                    a.id === aId ? { ...a, ...patch } : a
-                  ),
-                }
-              : c
-          ),
-        })),
-      removeAssignment: (courseId, aId) =>
-        set((state) => ({
-          courses: state.courses.map((c) =>
-            c.id === courseId
-              ? {
-                  ...c,
-                  assignments: c.assignments.filter((a) => a.id !== aId),
-                }
-              : c
-          ),
-        })),
-    }),
-    { name: "course-tracker-v1" }
-  )
-);
-
 // ==========================
 // UI Primitives (Tailwind-only)
 // ==========================
@@ -193,11 +219,13 @@ function Modal({
   onClose,
   title,
   children,
+  wide = false,
 }: {
   open: boolean;
   onClose: () => void;
   title: string;
   children: React.ReactNode;
+  wide?: boolean;
 }) {
   if (!open) return null;
   return (
@@ -206,7 +234,9 @@ function Modal({
       onClick={onClose}
     >
       <div
-        className="w-full max-w-lg rounded-2xl bg-white dark:bg-neutral-900 p-6 shadow-xl"
+        className={`w-full ${
+          wide ? "max-w-3xl" : "max-w-lg"
+        } max-h-[90vh] overflow-y-auto rounded-2xl bg-white dark:bg-neutral-900 p-6 shadow-xl`}
         onClick={(e) => e.stopPropagation()}
       >
         <div className="mb-4 flex items-center gap-2">
@@ -242,12 +272,22 @@ function Badge({
 function Button({
   children,
   onClick,
-  variant = "primary" as "primary" | "ghost" | "outline",
+  variant = "primary",
   type = "button",
   className = "",
+  disabled = false,
+  title,
+}: {
+  children: React.ReactNode;
+  onClick?: () => void;
+  variant?: "primary" | "ghost" | "outline";
+  type?: "button" | "submit" | "reset";
+  className?: string;
+  disabled?: boolean;
+  title?: string;
 }) {
   const base =
-    "inline-flex items-center gap-2 rounded-xl px-3.5 py-2.5 text-sm font-medium transition shadow-sm";
+    "inline-flex items-center gap-2 rounded-xl px-3.5 py-2.5 text-sm font-medium transition shadow-sm disabled:cursor-not-allowed disabled:opacity-40";
   const map: Record<string, string> = {
     primary:
       "bg-neutral-900 text-white hover:bg-neutral-800 active:bg-neutral-900 dark:bg-white dark:text-neutral-900",
@@ -260,6 +300,8 @@ function Button({
       type={type}
       className={`${base} ${map[variant]} ${className}`}
       onClick={onClick}
+      disabled={disabled}
+      title={title}
     >
       {children}
     </button>
@@ -387,16 +429,85 @@ function Donut({
   );
 }
 
+// Percent-over-time lines; `data` rows carry a `date` plus one key per line
+function TrendChart({
+  data,
+  lines,
+}: {
+  data: Record<string, string | number | null>[];
+  lines: { key: string; name: string; color: string }[];
+}) {
+  return (
+    <div className="h-64">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data} margin={{ top: 8, right: 8, left: -16 }}>
+          <CartesianGrid strokeDasharray="3 3" strokeOpacity={0.3} />
+          <XAxis dataKey="date" tickFormatter={shortDate} fontSize={12} />
+          <YAxis domain={[0, 100]} unit="%" fontSize={12} />
+          <RechartsTooltip
+            labelFormatter={(d) => shortDate(String(d))}
+            formatter={(v) =>
+              typeof v === "number" ? `${v.toFixed(1)}%` : "—"
+            }
+          />
+          <Legend />
+          {lines.map((l) => (
+            <Line
+              key={l.key}
+              type="monotone"
+              dataKey={l.key}
+              name={l.name}
+              stroke={l.color}
+              strokeWidth={2}
+              dot={{ r: 2 }}
+              connectNulls
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
 // ==========================
 // Components
 // ==========================
+export type HomeView = "courses" | "agenda" | "calendar";
+
+const HOME_VIEWS: { id: HomeView; label: string }[] = [
+  { id: "courses", label: "Courses" },
+  { id: "agenda", label: "Agenda" },
+  { id: "calendar", label: "Calendar" },
+];
+
 function TopBar({
   onAddCourse,
   onHome,
+  view,
+  onView,
 }: {
   onAddCourse: () => void;
   onHome?: () => void;
+  view?: HomeView;
+  onView?: (v: HomeView) => void;
 }) {
+  const undoLabel = useCourseStore((s) => s.past[s.past.length - 1]?.label);
+  const redoLabel = useCourseStore((s) => s.future[s.future.length - 1]?.label);
+  const undo = useCourseStore((s) => s.undo);
+  const redo = useCourseStore((s) => s.redo);
+  const remindersOn = useReminderStore((s) => s.enabled);
+  const [remindersOpen, setRemindersOpen] = useState(false);
+  const [dueOpen, setDueOpen] = useState(false);
+  const [syncOpen, setSyncOpen] = useState(false);
+  const syncState = useServerSyncStore((s) =>
+    !s.token
+      ? "off"
+      : s.conflicts.length > 0
+      ? "conflict"
+      : s.error
+      ? "error"
+      : "on"
+  );
   return (
     <div className="sticky top-0 z-40 border-b border-neutral-200 dark:border-neutral-800 bg-white/80 dark:bg-neutral-950/80 backdrop-blur">
       <div className="mx-auto max-w-6xl px-4 py-3 flex items-center justify-between">
@@ -409,13 +520,128 @@ function TopBar({
             <BookOpen className="h-5 w-5" />
             <span className="font-semibold">MarkMate</span>
           </button>
+          {onView && (
+            <nav className="ml-4 flex items-center gap-1">
+              {HOME_VIEWS.map((v) => (
+                <button
+                  key={v.id}
+                  onClick={() => onView(v.id)}
+                  className={`rounded-xl px-3 py-1.5 text-sm font-medium transition ${
+                    view === v.id
+                      ? "bg-neutral-900 text-white dark:bg-white dark:text-neutral-900"
+                      : "hover:bg-neutral-100 dark:hover:bg-neutral-800"
+                  }`}
+                >
+                  {v.label}
+                </button>
+              ))}
+            </nav>
+          )}
         </div>
         <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            onClick={undo}
+            disabled={!undoLabel}
+            title={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : "Nothing to undo"}
+          >
+            <Undo2 className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            onClick={redo}
+            disabled={!redoLabel}
+            title={
+              redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : "Nothing to redo"
+            }
+          >
+            <Redo2 className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            onClick={() => setRemindersOpen(true)}
+            title="Deadline reminders"
+          >
+            {remindersOn ? (
+              <BellRing className="h-4 w-4" />
+            ) : (
+              <Bell className="h-4 w-4" />
+            )}
+          </Button>
+          <Button
+            variant="ghost"
+            onClick={() => setDueOpen(true)}
+            title="Due dates & time zone"
+          >
+            <Clock className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            onClick={() => setSyncOpen(true)}
+            title={
+              syncState === "conflict"
+                ? "Sync conflicts need your attention"
+                : syncState === "error"
+                ? "Sync problem"
+                : "Sync server"
+            }
+          >
+            {syncState === "conflict" ? (
+              <CloudAlert className="h-4 w-4 text-amber-600" />
+            ) : syncState === "error" ? (
+              <CloudOff className="h-4 w-4 text-rose-600" />
+            ) : (
+              <Cloud
+                className={`h-4 w-4 ${syncState === "off" ? "opacity-50" : ""}`}
+              />
+            )}
+          </Button>
           <Button onClick={onAddCourse}>
             <Plus className="h-4 w-4" /> Add Course
           </Button>
         </div>
       </div>
+      <DueSettingsModal open={dueOpen} onClose={() => setDueOpen(false)} />
+      <ServerSyncModal open={syncOpen} onClose={() => setSyncOpen(false)} />
+      <RemindersModal
+        open={remindersOpen}
+        onClose={() => setRemindersOpen(false)}
+      />
+    </div>
+  );
+}
+
+function Toaster() {
+  const toasts = useToastStore((s) => s.toasts);
+  const dismiss = useToastStore((s) => s.dismiss);
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col items-end gap-2">
+      {toasts.map((t) => (
+        <div
+          key={t.id}
+          className="flex items-center gap-3 rounded-xl bg-neutral-900 px-4 py-3 text-sm text-white shadow-lg dark:bg-white dark:text-neutral-900"
+        >
+          <span>{t.message}</span>
+          {t.action && (
+            <button
+              className="font-semibold underline underline-offset-2"
+              onClick={() => {
+                t.action!.run();
+                dismiss(t.id);
+              }}
+            >
+              {t.action.label}
+            </button>
+          )}
+          <button
+            className="opacity-60 hover:opacity-100"
+            onClick={() => dismiss(t.id)}
+            aria-label="Dismiss"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
     </div>
   );
 }
@@ -431,7 +657,15 @@ function CourseCard({
     () => calcMetrics(course),
     [course]
   );
-  const nd = useMemo(() => nextDue(course.assignments), [course.assignments]);
+  const due = useSettingsStore((s) => s.due);
+  const nd = useMemo(
+    () => nextDue(course.assignments, due),
+    [course.assignments, due]
+  );
+  const overdue = course.assignments.filter((a) => isOverdue(a, due)).length;
+  const scales = useCourseStore((s) => s.scales);
+  const letter = useMemo(() => courseLetter(course, scales), [course, scales]);
+  const projection = useMemo(() => calcProjection(course), [course]);
 
   return (
     <div
@@ -453,6 +687,20 @@ function CourseCard({
               {gradeSoFar == null ? "—" : gradeSoFar.toFixed(1) + "%"}
             </Badge>
             <Badge>Current Mark: {currentMark.toFixed(1)}%</Badge>
+            {overdue > 0 && <Badge intent="danger">{overdue} overdue</Badge>}
+            {projection && (
+              <Badge intent="info">
+                Projected: {projection.expected.toFixed(1)}% (
+                {projection.worst.toFixed(0)}–{projection.best.toFixed(0)})
+              </Badge>
+            )}
+            {letter.band && (
+              <Badge intent="success">
+                {letter.band.letter}
+                {letter.band.points != null &&
+                  ` · ${letter.band.points.toFixed(2)}`}
+              </Badge>
+            )}
           </div>
           <div className="flex items-center gap-2 text-xs text-neutral-500">
             <CalendarDays className="h-4 w-4" />
@@ -474,6 +722,184 @@ function CourseCard({
   );
 }
 
+function TermBar() {
+  const terms = useCourseStore((s) => s.terms);
+  const activeTermId = useCourseStore((s) => s.activeTermId);
+  const courses = useCourseStore((s) => s.courses);
+  const addTerm = useCourseStore((s) => s.addTerm);
+  const renameTerm = useCourseStore((s) => s.renameTerm);
+  const setTermArchived = useCourseStore((s) => s.setTermArchived);
+  const removeTerm = useCourseStore((s) => s.removeTerm);
+  const setActiveTerm = useCourseStore((s) => s.setActiveTerm);
+  const [showArchived, setShowArchived] = useState(false);
+  const [draft, setDraft] = useState<string | null>(null); // new term name
+  const [renaming, setRenaming] = useState<string | null>(null);
+
+  const active = terms.find((t) => t.id === activeTermId) ?? null;
+  const hasUnsorted = courses.some((c) => c.termId == null);
+  const visibleTerms = terms.filter(
+    (t) => !t.archived || showArchived || t.id === activeTermId
+  );
+  const archivedCount = terms.filter((t) => t.archived).length;
+
+  const tab = (selected: boolean) =>
+    `rounded-xl px-3 py-1.5 text-sm font-medium transition ${
+      selected
+        ? "bg-neutral-900 text-white dark:bg-white dark:text-neutral-900"
+        : "hover:bg-neutral-100 dark:hover:bg-neutral-800"
+    }`;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {(hasUnsorted || terms.length === 0) && (
+        <button
+          className={tab(activeTermId == null)}
+          onClick={() => setActiveTerm(null)}
+        >
+          {terms.length === 0 ? "All courses" : "No term"}
+        </button>
+      )}
+      {visibleTerms.map((t) => (
+        <button
+          key={t.id}
+          className={`${tab(t.id === activeTermId)} ${
+            t.archived ? "italic opacity-70" : ""
+          }`}
+          onClick={() => setActiveTerm(t.id)}
+        >
+          {t.name}
+        </button>
+      ))}
+      {draft == null ? (
+        <Button variant="ghost" onClick={() => setDraft("")}>
+          <Plus className="h-4 w-4" /> New term
+        </Button>
+      ) : (
+        <form
+          className="flex items-center gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (draft.trim()) addTerm(draft.trim());
+            setDraft(null);
+          }}
+        >
+          <Input
+            autoFocus
+            placeholder="e.g., Fall 2026"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            className="w-40"
+          />
+          <Button type="submit">Add</Button>
+          <Button variant="ghost" onClick={() => setDraft(null)}>
+            Cancel
+          </Button>
+        </form>
+      )}
+      <div className="ml-auto flex items-center gap-2">
+        {archivedCount > 0 && (
+          <label className="flex items-center gap-1 text-xs text-neutral-500">
+            <input
+              type="checkbox"
+              checked={showArchived}
+              onChange={(e) => setShowArchived(e.target.checked)}
+            />
+            Show archived ({archivedCount})
+          </label>
+        )}
+        {active &&
+          (renaming != null ? (
+            <form
+              className="flex items-center gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (renaming.trim()) renameTerm(active.id, renaming.trim());
+                setRenaming(null);
+              }}
+            >
+              <Input
+                autoFocus
+                value={renaming}
+                onChange={(e) => setRenaming(e.target.value)}
+                className="w-40"
+              />
+              <Button type="submit">Save</Button>
+            </form>
+          ) : (
+            <>
+              <Button variant="ghost" onClick={() => setRenaming(active.name)}>
+                Rename
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setTermArchived(active.id, !active.archived)}
+              >
+                {active.archived ? (
+                  <>
+                    <ArchiveRestore className="h-4 w-4" /> Unarchive
+                  </>
+                ) : (
+                  <>
+                    <Archive className="h-4 w-4" /> Archive term
+                  </>
+                )}
+              </Button>
+              <Button
+                variant="ghost"
+                onClick={() => {
+                  removeTerm(active.id);
+                  toastUndo(`Deleted term "${active.name}"`);
+                }}
+              >
+                <Trash2 className="h-4 w-4 text-rose-600" />
+              </Button>
+            </>
+          ))}
+      </div>
+    </div>
+  );
+}
+
+// Grade So Far per course over time; each line holds its last value
+// between the days that course changed.
+function CourseTrendsPanel({ courses }: { courses: Course[] }) {
+  const allCourses = useCourseStore((s) => s.courses);
+  const data = useMemo(() => {
+    const series = courses.map(
+      (c) =>
+        new Map(gradeTimeline(c).map((p) => [p.date, p.gradeSoFar] as const))
+    );
+    const dates = [...new Set(series.flatMap((m) => [...m.keys()]))].sort();
+    const last: (number | null)[] = courses.map(() => null);
+    return dates.map((date) => {
+      const row: Record<string, string | number | null> = { date };
+      courses.forEach((c, i) => {
+        if (series[i].has(date)) last[i] = series[i].get(date)!;
+        row[c.id] = last[i];
+      });
+      return row;
+    });
+  }, [courses]);
+
+  if (data.length < 2) return null;
+  return (
+    <div className="rounded-2xl border border-neutral-200 dark:border-neutral-800 p-4 bg-white dark:bg-neutral-950">
+      <div className="mb-3 flex items-center gap-2">
+        <Activity className="h-4 w-4" />
+        <span className="font-semibold">Grade So Far over time</span>
+      </div>
+      <TrendChart
+        data={data}
+        lines={courses.map((c) => ({
+          key: c.id,
+          name: c.name,
+          color: courseColor(allCourses.indexOf(c)),
+        }))}
+      />
+    </div>
+  );
+}
+
 function CourseGrid({
   onOpenCourse,
   onAddCourse,
@@ -481,25 +907,81 @@ function CourseGrid({
   onOpenCourse: (id: string) => void;
   onAddCourse?: () => void;
 }) {
-  const courses = useCourseStore((s) => s.courses);
+  const allCourses = useCourseStore((s) => s.courses);
+  const scales = useCourseStore((s) => s.scales);
+  const terms = useCourseStore((s) => s.terms);
+  const activeTermId = useCourseStore((s) => s.activeTermId);
+  const courses = useMemo(
+    () => allCourses.filter((c) => (c.termId ?? null) === activeTermId),
+    [allCourses, activeTermId]
+  );
+  const { gpa, credits } = useMemo(
+    () => calcGpa(courses, scales),
+    [courses, scales]
+  );
+  const cumulative = useMemo(
+    () => calcCumulativeGpa(allCourses, terms, scales),
+    [allCourses, terms, scales]
+  );
+  const active = terms.find((t) => t.id === activeTermId);
+
   return (
-    <div className="mx-auto max-w-6xl p-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-      {courses.length === 0 ? (
-        <div className="col-span-full rounded-2xl border border-dashed p-10 text-center text-neutral-500 dark:border-neutral-800">
-          <div>Add your first course to get started.</div>
-          {onAddCourse && (
-            <div className="mt-4">
-              <Button onClick={onAddCourse}>
-                <Plus className="h-4 w-4" /> Add Course
-              </Button>
-            </div>
+    <div className="mx-auto max-w-6xl p-4 space-y-4">
+      <TermBar />
+      {courses.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3 rounded-2xl border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-950 px-4 py-3">
+          <GraduationCap className="h-5 w-5" />
+          <span className="font-semibold">
+            {active ? `${active.name} GPA` : "Term GPA"}
+          </span>
+          <span className="text-2xl font-semibold">
+            {gpa == null ? "—" : gpa.toFixed(2)}
+          </span>
+          <span className="text-xs text-neutral-500">
+            {gpa == null
+              ? "Grade some work on a GPA scale to see it"
+              : `over ${credits} credit${credits === 1 ? "" : "s"}`}
+          </span>
+          {cumulative.gpa != null && (
+            <span className="ml-auto text-sm">
+              Cumulative GPA{" "}
+              <span className="text-lg font-semibold">
+                {cumulative.gpa.toFixed(2)}
+              </span>{" "}
+              <span className="text-xs text-neutral-500">
+                over {cumulative.credits} credits in finished terms
+              </span>
+            </span>
           )}
         </div>
-      ) : (
-        courses.map((c) => (
-          <CourseCard key={c.id} course={c} onOpen={() => onOpenCourse(c.id)} />
-        ))
       )}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {courses.length === 0 ? (
+          <div className="col-span-full rounded-2xl border border-dashed p-10 text-center text-neutral-500 dark:border-neutral-800">
+            <div>
+              {active
+                ? `No courses in ${active.name} yet.`
+                : "Add your first course to get started."}
+            </div>
+            {onAddCourse && (
+              <div className="mt-4">
+                <Button onClick={onAddCourse}>
+                  <Plus className="h-4 w-4" /> Add Course
+                </Button>
+              </div>
+            )}
+          </div>
+        ) : (
+          courses.map((c) => (
+            <CourseCard
+              key={c.id}
+              course={c}
+              onOpen={() => onOpenCourse(c.id)}
+            />
+          ))
+        )}
+      </div>
+      <CourseTrendsPanel courses={courses} />
     </div>
   );
 }
@@ -512,8 +994,20 @@ function AddCourseModal({
   onClose: () => void;
 }) {
   const addCourse = useCourseStore((s) => s.addCourse);
+  const terms = useCourseStore((s) => s.terms);
+  const activeTermId = useCourseStore((s) => s.activeTermId);
   const [name, setName] = useState("");
+  const [termId, setTermId] = useState("");
   const [err, setErr] = useState("");
+  // Another way to fill in the new course, shown instead of this form
+  const [source, setSource] = useState<"syllabus" | "template" | null>(null);
+
+  useEffect(() => {
+    if (open) setTermId(activeTermId ?? "");
+  }, [open, activeTermId]);
+  useEffect(() => {
+    if (!open) setSource(null);
+  }, [open]);
 
   const onSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -522,11 +1016,36 @@ function AddCourseModal({
       setErr("Course name is required");
       return;
     }
-    addCourse(trimmed);
+    addCourse(trimmed, termId || null);
+    setName("");
+    setErr("");
+    onClose();
+  };
+
+  const created = () => {
+    setSource(null);
     setName("");
     setErr("");
     onClose();
   };
+  if (open && source === "syllabus")
+    return (
+      <SyllabusImportModal
+        initialName={name.trim()}
+        termId={termId || null}
+        onClose={() => setSource(null)}
+        onCreated={created}
+      />
+    );
+  if (open && source === "template")
+    return (
+      <TemplateCourseModal
+        initialName={name.trim()}
+        termId={termId || null}
+        onClose={() => setSource(null)}
+        onCreated={created}
+      />
+    );
 
   return (
     <Modal open={open} onClose={onClose} title="Add Course">
@@ -545,7 +1064,38 @@ function AddCourseModal({
           />
           {err && <p className="mt-1 text-xs text-rose-600">{err}</p>}
         </div>
-        <div className="flex justify-end gap-2">
+        {terms.length > 0 && (
+          <div>
+            <label className="mb-1 block text-sm font-medium">Term</label>
+            <SelectBox value={termId} onChange={setTermId}>
+              <option value="">No term</option>
+              {terms
+                .filter((t) => !t.archived || t.id === termId)
+                .map((t) => (
+                  <option key={t.id} value={t.id}>
+                    {t.name}
+                  </option>
+                ))}
+            </SelectBox>
+          </div>
+        )}
+        <div className="flex flex-wrap items-center justify-end gap-2">
+          <div className="mr-auto flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setSource("syllabus")}
+              title="Paste the grading table from a syllabus"
+            >
+              <ClipboardList className="h-4 w-4" /> From syllabus…
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setSource("template")}
+              title="Start from a saved or shared course template"
+            >
+              <LayoutTemplate className="h-4 w-4" /> From template…
+            </Button>
+          </div>
           <Button variant="ghost" onClick={onClose} type="button">
             Cancel
           </Button>
@@ -556,100 +1106,630 @@ function AddCourseModal({
   );
 }
 
-function AddAssignmentModal({
-  open,
+type SyllabusDraft = {
+  key: string;
+  include: boolean;
+  title: string;
+  weight: string; // as typed; percent or 0–1 like AddAssignmentModal
+  dueDate: string; // "" = no date
+};
+
+const SYLLABUS_EXAMPLE =
+  "Assignment 1 – 10% – due Sep 30\nMidterm – 25% – Oct 28\nFinal exam – 40% – Dec 12";
+
+// Paste a syllabus grading table, check the parsed rows in a grid, then
+// create the course with all of its assignments
+function SyllabusImportModal({
+  initialName,
+  termId,
   onClose,
-  courseId,
-  defaultValues,
+  onCreated,
 }: {
-  open: boolean;
+  initialName: string;
+  termId: string | null;
   onClose: () => void;
-  courseId: string;
-  defaultValues?: Partial<Assignment>;
+  onCreated: () => void;
 }) {
-  const addAssignment = useCourseStore((s) => s.addAssignment);
-
-  const [title, setTitle] = useState(defaultValues?.title ?? "");
-  const [dueDate, setDueDate] = useState<string>(defaultValues?.dueDate ?? "");
-  const [weight, setWeight] = useState<string>(
-    defaultValues?.weight !== undefined && defaultValues?.weight !== null
-      ? String(defaultValues.weight)
-      : ""
-  );
-  const [status, setStatus] = useState<AssignmentStatus>(
-    defaultValues?.status ?? "not_started"
+  const addCourseWithAssignments = useCourseStore(
+    (s) => s.addCourseWithAssignments
   );
-  const [grade, setGrade] = useState<string>(
-    defaultValues?.grade !== undefined && defaultValues?.grade !== null
-      ? String(defaultValues.grade)
-      : ""
-  );
-  const [errs, setErrs] = useState<{
-    title?: string;
-    weight?: string;
-    grade?: string;
-  }>({});
+  const [name, setName] = useState(initialName);
+  const [text, setText] = useState("");
+  const [rows, setRows] = useState<SyllabusDraft[] | null>(null);
 
-  const validate = () => {
-    const e: { title?: string; weight?: string; grade?: string } = {};
-    if (!title.trim()) e.title = "Title is required";
-
-    const w = weight === "" ? NaN : Number(weight);
-    if (!isFinite(w)) e.weight = "Enter a number (%, or fraction 0–1)";
-    else if (w < 0) e.weight = "Weight must be ≥ 0";
-    else if (w > 1000) e.weight = "Weight too large";
-
-    if (grade !== "") {
-      const g = Number(grade);
-      if (!isFinite(g) || g < 0 || g > 100)
-        e.grade = "Grade must be 0–100 or empty";
-    }
-
-    setErrs(e);
-    return e;
-  };
-
-  const onSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    const eobj = validate();
-    if (Object.keys(eobj).length) return;
+  const parse = () =>
+    setRows(
+      parseSyllabus(text).map((r) => ({
+        key: uid(),
+        include: true,
+        title: r.title,
+        weight: r.weight == null ? "" : String(+r.weight.toFixed(6)),
+        dueDate: r.dueDate ?? "",
+      }))
+    );
+  const edit = (key: string, patch: Partial<SyllabusDraft>) =>
+    setRows(
+      (rs) => rs && rs.map((r) => (r.key === key ? { ...r, ...patch } : r))
+    );
 
-    addAssignment(courseId, {
-      title: title.trim(),
-      dueDate: dueDate ? dueDate : null,
-      weight: Number(weight),
-      status,
-      grade: grade === "" ? null : Number(grade),
-    });
+  const chosen = (rows ?? []).filter((r) => r.include && r.title.trim());
+  const badWeight = (r: SyllabusDraft) =>
+    r.weight.trim() !== "" &&
+    (!isFinite(Number(r.weight)) || Number(r.weight) < 0);
+  const total = chosen.reduce(
+    (sum, r) =>
+      sum + (badWeight(r) ? 0 : normalizeWeightToPercent(Number(r.weight))),
+    0
+  );
+  const canCreate =
+    name.trim() !== "" && chosen.length > 0 && !chosen.some(badWeight);
 
-    // reset
-    setTitle("");
-    setDueDate("");
-    setWeight("");
-    setStatus("not_started");
-    setGrade("");
-    setErrs({});
-    onClose();
+  const create = () => {
+    addCourseWithAssignments(
+      name.trim(),
+      chosen.map((r) => ({
+        title: r.title.trim(),
+        dueDate: r.dueDate || null,
+        weight: r.weight.trim() === "" ? 0 : Number(r.weight),
+        status: "not_started",
+        grade: null,
+      })),
+      termId
+    );
+    onCreated();
   };
 
   return (
-    <Modal open={open} onClose={onClose} title="Add Assignment">
-      <form noValidate className="space-y-4" onSubmit={onSubmit}>
+    <Modal open onClose={onClose} title="Course from syllabus" wide>
+      <div className="space-y-4 text-sm">
         <div>
-          <label className="mb-1 block text-sm font-medium">Title</label>
+          <label className="mb-1 block font-medium">Course name</label>
           <Input
-            type="text"
-            placeholder="e.g., Midterm"
-            value={title}
-            onChange={(e) => {
-              setTitle(e.target.value);
-              if (errs.title) setErrs({ ...errs, title: undefined });
-            }}
+            value={name}
+            placeholder="e.g., CIV 312"
+            onChange={(e) => setName(e.target.value)}
           />
-          {errs.title && (
-            <p className="mt-1 text-xs text-rose-600">{errs.title}</p>
-          )}
         </div>
+        {!rows ? (
+          <>
+            <div>
+              <label className="mb-1 block font-medium">
+                Grading table from the syllabus
+              </label>
+              <textarea
+                rows={10}
+                autoFocus
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                placeholder={SYLLABUS_EXAMPLE}
+                className="w-full rounded-xl border border-neutral-300 dark:border-neutral-700 bg-white dark:bg-neutral-900 px-3 py-2 text-sm font-mono outline-none focus:ring-2 focus:ring-neutral-900 dark:focus:ring-white"
+              />
+              <p className="mt-1 text-xs text-neutral-500">
+                One item per line, or a table copied from a document or
+                spreadsheet. Weights can be percents (10%) or fractions (0.1).
+              </p>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button onClick={parse} disabled={!text.trim()}>
+                Next
+              </Button>
+            </div>
+          </>
+        ) : (
+          <>
+            {rows.length === 0 && (
+              <p className="text-neutral-500">
+                No items with a weight or due date were found. Go back and check
+                the text, or add rows by hand.
+              </p>
+            )}
+            <div className="max-h-96 overflow-y-auto rounded-xl border border-neutral-200 dark:border-neutral-800">
+              <table className="w-full text-left">
+                <thead className="sticky top-0 bg-neutral-50 text-xs text-neutral-500 dark:bg-neutral-900">
+                  <tr>
+                    <th className="w-8 px-2 py-2" />
+                    <th className="px-2 py-2">Title</th>
+                    <th className="w-28 px-2 py-2">Weight %</th>
+                    <th className="w-44 px-2 py-2">Due</th>
+                    <th className="w-10 px-2 py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((r) => (
+                    <tr
+                      key={r.key}
+                      className={`border-t border-neutral-200 dark:border-neutral-800 ${
+                        r.include ? "" : "opacity-50"
+                      }`}
+                    >
+                      <td className="px-2 py-1">
+                        <input
+                          type="checkbox"
+                          checked={r.include}
+                          onChange={(e) =>
+                            edit(r.key, { include: e.target.checked })
+                          }
+                        />
+                      </td>
+                      <td className="px-2 py-1">
+                        <Input
+                          value={r.title}
+                          onChange={(e) =>
+                            edit(r.key, { title: e.target.value })
+                          }
+                        />
+                      </td>
+                      <td className="px-2 py-1">
+                        <Input
+                          inputMode="decimal"
+                          value={r.weight}
+                          className={badWeight(r) ? "ring-2 ring-rose-500" : ""}
+                          onChange={(e) =>
+                            edit(r.key, { weight: e.target.value })
+                          }
+                        />
+                      </td>
+                      <td className="px-2 py-1">
+                        <Input
+                          type="date"
+                          value={r.dueDate}
+                          onChange={(e) =>
+                            edit(r.key, { dueDate: e.target.value })
+                          }
+                        />
+                      </td>
+                      <td className="px-2 py-1">
+                        <Button
+                          variant="ghost"
+                          title="Remove row"
+                          onClick={() =>
+                            setRows(rows.filter((x) => x.key !== r.key))
+                          }
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex flex-wrap items-center gap-3">
+              <Button
+                variant="outline"
+                onClick={() =>
+                  setRows([
+                    ...rows,
+                    {
+                      key: uid(),
+                      include: true,
+                      title: "",
+                      weight: "",
+                      dueDate: "",
+                    },
+                  ])
+                }
+              >
+                <Plus className="h-4 w-4" /> Add row
+              </Button>
+              <span className="text-neutral-500">
+                {chosen.length} item(s) · weights total {+total.toFixed(2)}%
+              </span>
+              {chosen.length > 0 && Math.abs(total - 100) > 0.01 && (
+                <span className="inline-flex items-center gap-1 rounded-md bg-amber-100 px-2 py-1 text-xs text-amber-700 dark:bg-amber-900/30 dark:text-amber-300">
+                  <AlertTriangle className="h-3.5 w-3.5" /> Not 100% — you can
+                  fix weights later too
+                </span>
+              )}
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => setRows(null)}>
+                Back
+              </Button>
+              <Button onClick={create} disabled={!canCreate}>
+                Create course
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+}
+
+const templateFileName = (name: string) =>
+  `${name.replace(/[^\w-]+/g, "_") || "templates"}.markmate-template.json`;
+
+// Dates in a template count from the first week of term (see courseTemplate)
+function SaveTemplateModal({
+  course,
+  onClose,
+}: {
+  course: Course;
+  onClose: () => void;
+}) {
+  const templates = useTemplateStore((s) => s.templates);
+  const saveTemplates = useTemplateStore((s) => s.saveTemplates);
+  const timeZone = useSettingsStore((s) => s.due.timeZone);
+  const [name, setName] = useState(course.name);
+  const [termStart, setTermStart] = useState(
+    () =>
+      course.assignments
+        .map((a) => a.dueDate)
+        .filter((d): d is string => d != null)
+        .sort()[0] ?? todayISO(timeZone)
+  );
+  const replaces = templates.some(
+    (t) => t.name.toLowerCase() === name.trim().toLowerCase()
+  );
+  const categories = course.categories?.length ?? 0;
+
+  const save = () => {
+    saveTemplates([courseTemplate(course, name.trim(), termStart)]);
+    useToastStore
+      .getState()
+      .push({ message: `Saved template "${name.trim()}"` });
+    onClose();
+  };
+
+  return (
+    <Modal open onClose={onClose} title="Save as template">
+      <div className="space-y-4 text-sm">
+        <div>
+          <label className="mb-1 block font-medium">Template name</label>
+          <Input value={name} onChange={(e) => setName(e.target.value)} />
+          {replaces && (
+            <p className="mt-1 text-xs text-amber-700 dark:text-amber-300">
+              Replaces your template with this name
+            </p>
+          )}
+        </div>
+        <div>
+          <label className="mb-1 block font-medium">First week of term</label>
+          <Input
+            type="date"
+            value={termStart}
+            onChange={(e) => setTermStart(e.target.value)}
+          />
+          <p className="mt-1 text-xs text-neutral-500">
+            Due dates are kept as week of term and weekday
+          </p>
+        </div>
+        <p className="text-neutral-500">
+          Keeps {course.assignments.length} assignment
+          {course.assignments.length === 1 ? "" : "s"}
+          {categories > 0 &&
+            ` and ${categories} categor${categories === 1 ? "y" : "ies"}`}{" "}
+          with their weights. Grades and statuses are left out.
+        </p>
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button disabled={!name.trim() || !termStart} onClick={save}>
+            <Save className="h-4 w-4" /> Save template
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+// Pick a saved template (or import one) and lay it out for a new term
+function TemplateCourseModal({
+  initialName,
+  termId,
+  onClose,
+  onCreated,
+}: {
+  initialName: string;
+  termId: string | null;
+  onClose: () => void;
+  onCreated: () => void;
+}) {
+  const templates = useTemplateStore((s) => s.templates);
+  const saveTemplates = useTemplateStore((s) => s.saveTemplates);
+  const removeTemplate = useTemplateStore((s) => s.removeTemplate);
+  const addCourseFromTemplate = useCourseStore((s) => s.addCourseFromTemplate);
+  const timeZone = useSettingsStore((s) => s.due.timeZone);
+  const [chosenId, setChosenId] = useState<string | null>(null);
+  const [name, setName] = useState(initialName);
+  const [termStart, setTermStart] = useState(() => todayISO(timeZone));
+  const [errors, setErrors] = useState<string[]>([]);
+  const chosen = templates.find((t) => t.id === chosenId) ?? null;
+
+  const choose = (t: CourseTemplate) => {
+    setChosenId(t.id);
+    if (!name.trim() || name === chosen?.name) setName(t.name);
+  };
+
+  const exportTemplates = (list: CourseTemplate[], fileName: string) =>
+    downloadFile(
+      templateFileName(fileName),
+      JSON.stringify(buildTemplateFile(list), null, 2),
+      "application/json"
+    );
+
+  const importFile = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      let result: ReturnType<typeof parseTemplateFile>;
+      try {
+        result = parseTemplateFile(JSON.parse(String(reader.result)));
+      } catch {
+        result = { errors: ["file: could not parse JSON"] };
+      }
+      if ("errors" in result) {
+        setErrors(result.errors);
+        return;
+      }
+      setErrors([]);
+      saveTemplates(result.templates);
+      if (result.templates.length === 1) choose(result.templates[0]);
+    };
+    reader.readAsText(file);
+  };
+
+  const create = () => {
+    if (!chosen) return;
+    addCourseFromTemplate(chosen, name.trim(), termId, termStart);
+    onCreated();
+  };
+
+  return (
+    <Modal open onClose={onClose} title="New course from template" wide>
+      <div className="space-y-4 text-sm">
+        {templates.length === 0 ? (
+          <div className="rounded-xl border border-dashed border-neutral-300 dark:border-neutral-700 p-6 text-center text-neutral-500">
+            No templates yet. Use "Save as template" on a course, or import a
+            file someone shared with you.
+          </div>
+        ) : (
+          <div className="max-h-60 overflow-auto space-y-1">
+            {templates.map((t) => (
+              <div
+                key={t.id}
+                className={`flex items-center gap-2 rounded-xl border px-3 py-2 ${
+                  t.id === chosenId
+                    ? "border-sky-400 bg-sky-50 dark:border-sky-700 dark:bg-sky-900/30"
+                    : "border-neutral-200 dark:border-neutral-800"
+                }`}
+              >
+                <label className="flex flex-1 cursor-pointer items-center gap-2 min-w-0">
+                  <input
+                    type="radio"
+                    name="template"
+                    checked={t.id === chosenId}
+                    onChange={() => choose(t)}
+                  />
+                  <span className="font-medium truncate">{t.name}</span>
+                  <span className="text-xs text-neutral-500">
+                    {t.assignments.length} assignment
+                    {t.assignments.length === 1 ? "" : "s"} · saved{" "}
+                    {new Date(t.savedAt).toLocaleDateString()}
+                  </span>
+                </label>
+                <Button
+                  variant="ghost"
+                  title="Export to a file"
+                  onClick={() => exportTemplates([t], t.name)}
+                >
+                  <Download className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  title="Delete template"
+                  onClick={() => {
+                    removeTemplate(t.id);
+                    if (t.id === chosenId) setChosenId(null);
+                  }}
+                >
+                  <Trash2 className="h-4 w-4 text-rose-600" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+        {errors.length > 0 && (
+          <ul className="list-disc pl-5 text-xs text-rose-600">
+            {errors.slice(0, 5).map((e) => (
+              <li key={e}>{e}</li>
+            ))}
+          </ul>
+        )}
+        {chosen && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="mb-1 block font-medium">Course name</label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div>
+              <label className="mb-1 block font-medium">
+                First week of term
+              </label>
+              <Input
+                type="date"
+                value={termStart}
+                onChange={(e) => setTermStart(e.target.value)}
+              />
+              <p className="mt-1 text-xs text-neutral-500">
+                Due dates keep their week of term and weekday
+              </p>
+            </div>
+          </div>
+        )}
+        <div className="flex items-center justify-end gap-2">
+          <label className="mr-auto inline-flex items-center gap-2 rounded-xl border border-neutral-300 dark:border-neutral-700 px-3 py-2 cursor-pointer">
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const f = e.target.files?.[0];
+                if (f) importFile(f);
+                e.target.value = "";
+              }}
+            />
+            Import file
+          </label>
+          {templates.length > 1 && (
+            <Button
+              variant="ghost"
+              onClick={() => exportTemplates(templates, "markmate")}
+            >
+              Export all
+            </Button>
+          )}
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            disabled={!chosen || !name.trim() || !termStart}
+            onClick={create}
+          >
+            Create course
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+function AddAssignmentModal({
+  open,
+  onClose,
+  courseId,
+  categories = [],
+  defaultValues,
+}: {
+  open: boolean;
+  onClose: () => void;
+  courseId: string;
+  categories?: Category[];
+  defaultValues?: Partial<Assignment>;
+}) {
+  const addAssignment = useCourseStore((s) => s.addAssignment);
+
+  const [title, setTitle] = useState(defaultValues?.title ?? "");
+  const [dueDate, setDueDate] = useState<string>(defaultValues?.dueDate ?? "");
+  const [weight, setWeight] = useState<string>(
+    defaultValues?.weight !== undefined && defaultValues?.weight !== null
+      ? String(defaultValues.weight)
+      : ""
+  );
+  const [status, setStatus] = useState<AssignmentStatus>(
+    defaultValues?.status ?? "not_started"
+  );
+  // Score text: a percent ("87") or points ("43.5 / 50")
+  const [grade, setGrade] = useState<string>(
+    formatScore({ ...defaultValues, bonusPoints: null })
+  );
+  const [bonus, setBonus] = useState<string>(
+    defaultValues?.bonusPoints != null ? String(defaultValues.bonusPoints) : ""
+  );
+  const [categoryId, setCategoryId] = useState<string>(
+    defaultValues?.categoryId ?? ""
+  );
+  const [errs, setErrs] = useState<{
+    title?: string;
+    weight?: string;
+    grade?: string;
+    bonus?: string;
+  }>({});
+
+  const category = categories.find((c) => c.id === categoryId);
+  // Categories ignore the assignment's own weight
+  const weightOptional = category != null;
+
+  const validate = () => {
+    const e: {
+      title?: string;
+      weight?: string;
+      grade?: string;
+      bonus?: string;
+    } = {};
+    if (!title.trim()) e.title = "Title is required";
+
+    const w = weight === "" ? (weightOptional ? 0 : NaN) : Number(weight);
+    if (!isFinite(w)) e.weight = "Enter a number (%, or fraction 0–1)";
+    else if (w < 0) e.weight = "Weight must be ≥ 0";
+    else if (w > 1000) e.weight = "Weight too large";
+
+    const score = grade.trim() === "" ? null : parseScore(grade);
+    if (grade.trim() !== "" && score == null)
+      e.grade = "Enter 0–100, points like 43.5 / 50, or leave empty";
+
+    if (bonus !== "") {
+      const b = Number(bonus);
+      if (score?.kind !== "points")
+        e.bonus = "Bonus needs a points score (e.g. 43.5 / 50)";
+      else if (!isFinite(b) || b < 0) e.bonus = "Bonus must be ≥ 0";
+    }
+
+    setErrs(e);
+    return e;
+  };
+
+  const onSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const eobj = validate();
+    if (Object.keys(eobj).length) return;
+
+    addAssignment(courseId, {
+      title: title.trim(),
+      dueDate: dueDate ? dueDate : null,
+      weight: weight === "" ? 0 : Number(weight),
+      status,
+      ...scoreFromInputs(grade, bonus),
+      categoryId: categoryId || null,
+    });
+
+    // reset
+    setTitle("");
+    setDueDate("");
+    setWeight("");
+    setCategoryId("");
+    setStatus("not_started");
+    setGrade("");
+    setBonus("");
+    setErrs({});
+    onClose();
+  };
+
+  return (
+    <Modal open={open} onClose={onClose} title="Add Assignment">
+      <form noValidate className="space-y-4" onSubmit={onSubmit}>
+        <div>
+          <label className="mb-1 block text-sm font-medium">Title</label>
+          <Input
+            type="text"
+            placeholder="e.g., Midterm"
+            value={title}
+            onChange={(e) => {
+              setTitle(e.target.value);
+              if (errs.title) setErrs({ ...errs, title: undefined });
+            }}
+          />
+          {errs.title && (
+            <p className="mt-1 text-xs text-rose-600">{errs.title}</p>
+          )}
+        </div>
+        {categories.length > 0 && (
+          <div>
+            <label className="mb-1 block text-sm font-medium">Category</label>
+            <SelectBox value={categoryId} onChange={setCategoryId}>
+              <option value="">No category (own weight)</option>
+              {categories.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
+                </option>
+              ))}
+            </SelectBox>
+          </div>
+        )}
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
           <div>
             <label className="mb-1 block text-sm font-medium">Due date</label>
@@ -673,7 +1753,11 @@ function AddAssignmentModal({
               }}
             />
             <p className="mt-1 text-xs text-neutral-500">
-              Accepts % (0–100) or fraction (0–1)
+              {category == null
+                ? "Accepts % (0–100) or fraction (0–1)"
+                : category.weighting === "points"
+                ? `Ignored — ${category.name} splits by points scored (43 / 50)`
+                : `Ignored — ${category.name} splits evenly`}
             </p>
             {errs.weight && (
               <p className="mt-1 text-xs text-rose-600">{errs.weight}</p>
@@ -687,18 +1771,19 @@ function AddAssignmentModal({
               value={status}
               onChange={(v) => setStatus(v as AssignmentStatus)}
             >
-              <option value="not_started">Not started</option>
-              <option value="in_progress">In progress</option>
-              <option value="completed">Completed</option>
-              <option value="overdue">Overdue</option>
+              {STATUSES.map((st) => (
+                <option key={st} value={st}>
+                  {STATUS_LABELS[st]}
+                </option>
+              ))}
             </SelectBox>
           </div>
           <div>
-            <label className="mb-1 block text-sm font-medium">Grade (%)</label>
+            <label className="mb-1 block text-sm font-medium">Grade</label>
             <Input
-              type="number"
-              step="any"
-              placeholder="e.g., 87"
+              type="text"
+              inputMode="decimal"
+              placeholder="e.g., 87 or 43.5 / 50"
               value={grade}
               onChange={(e) => {
                 setGrade(e.target.value);
@@ -706,11 +1791,31 @@ function AddAssignmentModal({
               }}
             />
             <p className="mt-1 text-xs text-neutral-500">
-              Leave empty if not graded yet
+              Percent or earned / possible. Leave empty if not graded yet
             </p>
             {errs.grade && (
               <p className="mt-1 text-xs text-rose-600">{errs.grade}</p>
             )}
+            {grade.includes("/") && (
+              <div className="mt-2">
+                <label className="mb-1 block text-sm font-medium">
+                  Bonus points
+                </label>
+                <Input
+                  type="number"
+                  step="any"
+                  placeholder="e.g., 2"
+                  value={bonus}
+                  onChange={(e) => {
+                    setBonus(stripLeadingZerosInput(e.target.value));
+                    if (errs.bonus) setErrs({ ...errs, bonus: undefined });
+                  }}
+                />
+                {errs.bonus && (
+                  <p className="mt-1 text-xs text-rose-600">{errs.bonus}</p>
+                )}
+              </div>
+            )}
           </div>
         </div>
         <div className="flex justify-end gap-2">
@@ -724,48 +1829,249 @@ function AddAssignmentModal({
   );
 }
 
-function EditCourseName({ course }: { course: Course }) {
-  const rename = useCourseStore((s) => s.renameCourse);
-  const [editing, setEditing] = useState(false);
-  const [name, setName] = useState(course.name);
-  useEffect(() => setName(course.name), [course.name]);
+// Longest series the generator will create in one go
+const MAX_RECURRING = 52;
+
+// Adds a numbered series at once, e.g. "Weekly Lab 1–12, every Tuesday from
+// Sep 9, 2% each"
+function RecurringAssignmentsModal({
+  open,
+  onClose,
+  courseId,
+  categories = [],
+}: {
+  open: boolean;
+  onClose: () => void;
+  courseId: string;
+  categories?: Category[];
+}) {
+  const addAssignments = useCourseStore((s) => s.addAssignments);
+  const timeZone = useSettingsStore((s) => s.due.timeZone);
+  const [title, setTitle] = useState("");
+  const [first, setFirst] = useState("1");
+  const [last, setLast] = useState("12");
+  const [weekday, setWeekday] = useState(1);
+  const [everyWeeks, setEveryWeeks] = useState(1);
+  const [start, setStart] = useState("");
+  const [weight, setWeight] = useState("");
+  const [categoryId, setCategoryId] = useState("");
+
+  useEffect(() => {
+    if (open) setStart((s) => s || todayISO(timeZone));
+  }, [open, timeZone]);
+
+  const category = categories.find((c) => c.id === categoryId);
+  const from = Number(first);
+  const to = Number(last);
+  const w = weight === "" ? 0 : Number(weight);
+  const error = !title.trim()
+    ? "Title is required"
+    : !Number.isInteger(from) || !Number.isInteger(to) || from < 0
+    ? "Numbers must be whole numbers"
+    : to < from
+    ? "The last number must not be below the first"
+    : to - from + 1 > MAX_RECURRING
+    ? `At most ${MAX_RECURRING} at a time`
+    : !start
+    ? "Pick a start date"
+    : !isFinite(w) || w < 0 || w > 1000
+    ? "Weight: a number ≥ 0 (%, or fraction 0–1)"
+    : null;
+  const items = error
+    ? []
+    : recurringAssignments({
+        title: title.trim(),
+        first: from,
+        last: to,
+        weekday,
+        start,
+        everyWeeks,
+        weight: w,
+        categoryId: categoryId || null,
+      });
+
+  const onSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (error) return;
+    addAssignments(courseId, items);
+    toastUndo(`Added ${items.length} assignments`);
+    setTitle("");
+    setWeight("");
+    onClose();
+  };
 
   return (
-    <div className="flex items-center gap-2">
-      {editing ? (
-        <>
+    <Modal open={open} onClose={onClose} title="Add Recurring Assignments">
+      <form noValidate className="space-y-4" onSubmit={onSubmit}>
+        <div>
+          <label className="mb-1 block text-sm font-medium">Title</label>
           <Input
-            value={name}
-            onChange={(e) => setName(e.target.value)}
-            className="w-auto"
+            type="text"
+            placeholder="e.g., Weekly Lab"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
           />
-          <Button
-            onClick={() => {
-              if (name.trim().length) {
-                rename(course.id, name.trim());
-                setEditing(false);
-              }
-            }}
-          >
-            Save
-          </Button>
-          <Button
-            variant="ghost"
-            onClick={() => {
-              setEditing(false);
-              setName(course.name);
-            }}
-          >
-            Cancel
-          </Button>
-        </>
-      ) : (
-        <>
-          <h2 className="text-xl font-semibold">{course.name}</h2>
-          <button
-            className="rounded-lg p-2 hover:bg-neutral-100 dark:hover:bg-neutral-800"
-            onClick={() => setEditing(true)}
-            title="Rename course"
+          <p className="mt-1 text-xs text-neutral-500">
+            The number is added at the end, or wherever you put #
+          </p>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="mb-1 block text-sm font-medium">From #</label>
+            <Input
+              type="number"
+              min={0}
+              value={first}
+              onChange={(e) => setFirst(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="mb-1 block text-sm font-medium">To #</label>
+            <Input
+              type="number"
+              min={0}
+              value={last}
+              onChange={(e) => setLast(e.target.value)}
+            />
+          </div>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div>
+            <label className="mb-1 block text-sm font-medium">Every</label>
+            <SelectBox
+              value={String(weekday)}
+              onChange={(v) => setWeekday(Number(v))}
+            >
+              {WEEKDAYS.map((d, i) => (
+                <option key={d} value={i}>
+                  {d}
+                </option>
+              ))}
+            </SelectBox>
+          </div>
+          <div>
+            <label className="mb-1 block text-sm font-medium">Repeat</label>
+            <SelectBox
+              value={String(everyWeeks)}
+              onChange={(v) => setEveryWeeks(Number(v))}
+            >
+              <option value="1">Every week</option>
+              <option value="2">Every 2 weeks</option>
+            </SelectBox>
+          </div>
+          <div>
+            <label className="mb-1 block text-sm font-medium">Starting</label>
+            <Input
+              type="date"
+              value={start}
+              onChange={(e) => setStart(e.target.value)}
+            />
+          </div>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="mb-1 block text-sm font-medium">
+              Weight each
+            </label>
+            <Input
+              type="number"
+              step="any"
+              placeholder="e.g., 2"
+              value={weight}
+              onChange={(e) =>
+                setWeight(stripLeadingZerosInput(e.target.value))
+              }
+            />
+            {category && (
+              <p className="mt-1 text-xs text-neutral-500">
+                Ignored — {category.name} splits{" "}
+                {category.weighting === "points"
+                  ? "by points scored"
+                  : "evenly"}
+              </p>
+            )}
+          </div>
+          {categories.length > 0 && (
+            <div>
+              <label className="mb-1 block text-sm font-medium">Category</label>
+              <SelectBox value={categoryId} onChange={setCategoryId}>
+                <option value="">No category (own weight)</option>
+                {categories.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.name}
+                  </option>
+                ))}
+              </SelectBox>
+            </div>
+          )}
+        </div>
+        {error ? (
+          <p className="text-xs text-rose-600">{error}</p>
+        ) : (
+          <div className="max-h-40 overflow-auto rounded-xl border border-neutral-200 dark:border-neutral-800 p-2 text-xs">
+            {items.map((a) => (
+              <div key={a.title + a.dueDate} className="flex justify-between">
+                <span>{a.title}</span>
+                <span className="text-neutral-500">{a.dueDate}</span>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={error != null}>
+            Add {items.length || ""}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
+
+function EditCourseName({ course }: { course: Course }) {
+  const rename = useCourseStore((s) => s.renameCourse);
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState(course.name);
+  useEffect(() => setName(course.name), [course.name]);
+
+  return (
+    <div className="flex items-center gap-2">
+      {editing ? (
+        <>
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="w-auto"
+          />
+          <Button
+            onClick={() => {
+              if (name.trim().length) {
+                rename(course.id, name.trim());
+                setEditing(false);
+              }
+            }}
+          >
+            Save
+          </Button>
+          <Button
+            variant="ghost"
+            onClick={() => {
+              setEditing(false);
+              setName(course.name);
+            }}
+          >
+            Cancel
+          </Button>
+        </>
+      ) : (
+        <>
+          <h2 className="text-xl font-semibold">{course.name}</h2>
+          <button
+            className="rounded-lg p-2 hover:bg-neutral-100 dark:hover:bg-neutral-800"
+            onClick={() => setEditing(true)}
+            title="Rename course"
           >
             {/* pencil icon via CSS circle */}
             <span className="inline-block h-4 w-4 rounded-full bg-neutral-300" />
@@ -776,40 +2082,107 @@ function EditCourseName({ course }: { course: Course }) {
   );
 }
 
+// Free-text score cell; keeps the user's draft while it is mid-edit
+// ("43.5 /") and only writes to the store once it parses.
+function ScoreInput({
+  a,
+  onChange,
+}: {
+  a: Assignment;
+  onChange: (patch: Partial<Assignment>) => void;
+}) {
+  const formatted = formatScore(a);
+  const [draft, setDraft] = useState(formatted);
+  const [invalid, setInvalid] = useState(false);
+
+  useEffect(() => {
+    setDraft((d) => {
+      const p = d.trim() === "" ? null : parseScore(d);
+      const same =
+        p == null
+          ? d.trim() === "" && formatted === ""
+          : formatScore(scorePatch(p)) === formatted;
+      return same ? d : formatted;
+    });
+    setInvalid(false);
+  }, [formatted]);
+
+  return (
+    <Input
+      type="text"
+      inputMode="decimal"
+      value={draft}
+      placeholder="Grade % or pts"
+      title="Percent (87) or points (43.5 / 50, bonus as + 2)"
+      className={invalid ? "ring-2 ring-rose-500" : ""}
+      onChange={(e) => {
+        const v = e.target.value;
+        setDraft(v);
+        if (v.trim() === "") {
+          setInvalid(false);
+          onChange(scorePatch(null));
+          return;
+        }
+        const parsed = parseScore(v);
+        setInvalid(parsed == null);
+        if (parsed) onChange(scorePatch(parsed));
+      }}
+    />
+  );
+}
+
 function AssignmentRow({
   a,
+  categories = [],
+  effective,
   onChange,
   onRemove,
+  selected,
+  onSelect,
 }: {
   a: Assignment;
+  categories?: Category[];
+  effective?: WeightedAssignment;
   onChange: (patch: Partial<Assignment>) => void;
   onRemove: () => void;
+  selected?: boolean;
+  onSelect?: (selected: boolean) => void; // shows a checkbox when set
 }) {
-  const overdueDerived = a.status !== "completed" && isPast(a.dueDate);
-
-  useEffect(() => {
-    if (overdueDerived && a.status !== "overdue")
-      onChange({ status: "overdue" });
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [a.dueDate, a.status]);
+  const category = categories.find((c) => c.id === a.categoryId);
+  const percent = gradePercent(a);
+  const due = useSettingsStore((s) => s.due);
+  const shown = displayStatus(a, due);
 
   return (
     <div className="rounded-xl border border-neutral-200 dark:border-neutral-800 p-3 flex flex-col gap-3">
       <div className="flex items-start justify-between gap-3">
         <div className="flex-1 min-w-0">
           <div className="flex items-center gap-2">
+            {onSelect && (
+              <input
+                type="checkbox"
+                checked={selected ?? false}
+                onChange={(e) => onSelect(e.target.checked)}
+                aria-label={`Select ${a.title || "Untitled"}`}
+              />
+            )}
             <span className="font-medium truncate">
               {a.title || "Untitled"}
             </span>
-            {a.status === "completed" && (
-              <Badge intent="success">Completed</Badge>
-            )}
-            {a.status === "overdue" && <Badge intent="danger">Overdue</Badge>}
+            {shown === "graded" && <Badge intent="success">Graded</Badge>}
+            {shown === "submitted" && <Badge intent="info">Submitted</Badge>}
+            {shown === "overdue" && <Badge intent="danger">Overdue</Badge>}
+            {effective?.dropped && <Badge>Dropped</Badge>}
+            {category && <Badge intent="info">{category.name}</Badge>}
           </div>
         </div>
       </div>
 
-      <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 w-full">
+      <div
+        className={`grid grid-cols-2 gap-2 w-full ${
+          categories.length > 0 ? "sm:grid-cols-6" : "sm:grid-cols-5"
+        }`}
+      >
         <Input
           value={a.title}
           onChange={(e) => onChange({ title: e.target.value })}
@@ -830,26 +2203,30 @@ function AssignmentRow({
           }}
           placeholder="Weight"
         />
+        {categories.length > 0 && (
+          <SelectBox
+            value={a.categoryId ?? ""}
+            onChange={(v) => onChange({ categoryId: v || null })}
+          >
+            <option value="">No category</option>
+            {categories.map((c) => (
+              <option key={c.id} value={c.id}>
+                {c.name}
+              </option>
+            ))}
+          </SelectBox>
+        )}
         <SelectBox
           value={a.status}
           onChange={(v) => onChange({ status: v as AssignmentStatus })}
         >
-          <option value="not_started">Not started</option>
-          <option value="in_progress">In progress</option>
-          <option value="completed">Completed</option>
-          <option value="overdue">Overdue</option>
+          {STATUSES.map((st) => (
+            <option key={st} value={st}>
+              {STATUS_LABELS[st]}
+            </option>
+          ))}
         </SelectBox>
-        <Input
-          type="number"
-          step="any"
-          value={a.grade ?? ""}
-          onChange={(e) =>
-            onChange({
-              grade: e.target.value === "" ? null : Number(e.target.value),
-            })
-          }
-          placeholder="Grade %"
-        />
+        <ScoreInput a={a} onChange={onChange} />
       </div>
 
       <div className="w-full mt-1 flex flex-wrap items-center gap-3 text-xs text-neutral-500">
@@ -857,17 +2234,31 @@ function AssignmentRow({
           <CalendarDays className="h-4 w-4" />
           {a.dueDate ?? "No date"}
         </div>
-        <div>Weight: {normalizeWeightToPercent(a.weight).toFixed(2)}%</div>
-        <div>Grade: {a.grade == null ? "—" : `${a.grade}%`}</div>
+        <div>
+          Weight:{" "}
+          {(effective?.weight ?? normalizeWeightToPercent(a.weight)).toFixed(2)}
+          %{category && ` of course (via ${category.name})`}
+        </div>
+        <div>
+          Grade: {percent == null ? "—" : `${+percent.toFixed(2)}%`}
+          {a.pointsPossible != null &&
+            percent != null &&
+            ` (${formatScore(a)})`}
+        </div>
       </div>
 
       <div className="flex items-center gap-2">
-        <Button
-          variant="outline"
-          onClick={() => onChange({ status: "completed" })}
-        >
-          <CheckCircle2 className="h-4 w-4" /> Mark Completed
-        </Button>
+        {!isDone(a) && (
+          <Button
+            variant="outline"
+            onClick={() =>
+              onChange({ status: percent == null ? "submitted" : "graded" })
+            }
+          >
+            <CheckCircle2 className="h-4 w-4" />{" "}
+            {percent == null ? "Mark Submitted" : "Mark Graded"}
+          </Button>
+        )}
         <button
           className="rounded-xl p-2 border border-neutral-200 dark:border-neutral-800 hover:bg-neutral-50 dark:hover:bg-neutral-800"
           onClick={onRemove}
@@ -880,184 +2271,2981 @@ function AssignmentRow({
   );
 }
 
-function CourseDetail({
-  courseId,
-  onBack,
+// Actions for the assignments ticked in CourseDetail's select mode
+function BulkAssignmentBar({
+  course,
+  ids,
+  onSelectAll,
+  onDone,
 }: {
-  courseId: string;
-  onBack: () => void;
+  course: Course;
+  ids: string[];
+  onSelectAll: () => void;
+  onDone: () => void;
 }) {
-  const course = useCourseStore(
-    (s) => s.courses.find((c) => c.id === courseId)!
+  const updateAssignments = useCourseStore((s) => s.updateAssignments);
+  const removeAssignments = useCourseStore((s) => s.removeAssignments);
+  const [days, setDays] = useState("7");
+  const [weight, setWeight] = useState("");
+  const count = `${ids.length} assignment${ids.length === 1 ? "" : "s"}`;
+  const chosen = course.assignments.filter((a) => ids.includes(a.id));
+  const shift = Number(days);
+  const w = Number(weight);
+  const canShift = Number.isInteger(shift) && shift !== 0;
+  const canWeigh = weight !== "" && isFinite(w) && w >= 0 && w <= 1000;
+  const none = ids.length === 0;
+
+  const setStatus = (status: AssignmentStatus) => {
+    updateAssignments(course.id, ids, () => ({ status }));
+    toastUndo(`Marked ${count} ${STATUS_LABELS[status].toLowerCase()}`);
+  };
+  const shiftDates = () => {
+    const undated = chosen.filter((a) => !a.dueDate).length;
+    updateAssignments(course.id, ids, (a) =>
+      a.dueDate ? { dueDate: addDaysISO(a.dueDate, shift) } : {}
+    );
+    toastUndo(
+      `Moved due dates ${Math.abs(shift)} day${
+        Math.abs(shift) === 1 ? "" : "s"
+      } ${shift > 0 ? "later" : "earlier"}` +
+        (undated ? ` (${undated} without a date left as is)` : "")
+    );
+  };
+  const setWeights = () => {
+    updateAssignments(course.id, ids, () => ({ weight: w }));
+    toastUndo(`Set the weight of ${count} to ${w}`);
+  };
+  const removeAll = () => {
+    removeAssignments(course.id, ids);
+    toastUndo(`Deleted ${count}`);
+    onDone();
+  };
+
+  return (
+    <div className="mb-3 flex flex-wrap items-center gap-2 rounded-xl border border-sky-300 bg-sky-50 p-2 text-sm dark:border-sky-800 dark:bg-sky-900/30">
+      <span className="font-medium">{ids.length} selected</span>
+      <Button variant="ghost" onClick={onSelectAll}>
+        All
+      </Button>
+      <div className="w-40">
+        <SelectBox
+          value=""
+          onChange={(v) => v && setStatus(v as AssignmentStatus)}
+        >
+          <option value="">Set status…</option>
+          {STATUSES.map((st) => (
+            <option key={st} value={st} disabled={none}>
+              {STATUS_LABELS[st]}
+            </option>
+          ))}
+        </SelectBox>
+      </div>
+      <div className="flex items-center gap-1">
+        <div className="w-20">
+          <Input
+            type="number"
+            step={1}
+            value={days}
+            onChange={(e) => setDays(e.target.value)}
+            title="Days (negative moves earlier)"
+          />
+        </div>
+        <Button
+          variant="outline"
+          disabled={none || !canShift}
+          onClick={shiftDates}
+        >
+          <CalendarDays className="h-4 w-4" /> Shift days
+        </Button>
+      </div>
+      <div className="flex items-center gap-1">
+        <div className="w-20">
+          <Input
+            type="number"
+            step="any"
+            placeholder="Weight"
+            value={weight}
+            onChange={(e) => setWeight(stripLeadingZerosInput(e.target.value))}
+          />
+        </div>
+        <Button
+          variant="outline"
+          disabled={none || !canWeigh}
+          onClick={setWeights}
+        >
+          Set weight
+        </Button>
+      </div>
+      <Button variant="ghost" disabled={none} onClick={removeAll}>
+        <Trash2 className="h-4 w-4 text-rose-600" /> Delete
+      </Button>
+      <Button variant="ghost" className="ml-auto" onClick={onDone}>
+        Done
+      </Button>
+    </div>
   );
-  const update = useCourseStore((s) => s.updateAssignment);
-  const remove = useCourseStore((s) => s.removeAssignment);
-  const removeCourse = useCourseStore((s) => s.removeCourse);
-  const [addOpen, setAddOpen] = useState(false);
+}
 
-  const { completedWeighted, gradeSoFar, currentMark, totalWeights } = useMemo(
-    () => calcMetrics(course),
-    [course]
+function TrendPanel({ course }: { course: Course }) {
+  const data = useMemo(() => gradeTimeline(course), [course]);
+  return (
+    <div className="rounded-2xl border border-neutral-200 dark:border-neutral-800 p-4 bg-white dark:bg-neutral-950">
+      <div className="mb-3 flex items-center gap-2">
+        <Activity className="h-4 w-4" />
+        <span className="font-semibold">Trend</span>
+      </div>
+      {data.length < 2 ? (
+        <p className="text-sm text-neutral-500">
+          Grade and status changes are recorded as you make them; the chart
+          appears once they span two days.
+        </p>
+      ) : (
+        <TrendChart
+          data={data}
+          lines={[
+            { key: "gradeSoFar", name: "Grade So Far", color: "#0ea5e9" },
+            { key: "currentMark", name: "Current Mark", color: "#10b981" },
+          ]}
+        />
+      )}
+    </div>
   );
+}
+
+const CONFIDENCE_LABELS: Record<ProjectionConfidence, string> = {
+  low: "Low confidence",
+  medium: "Medium confidence",
+  high: "High confidence",
+};
+
+function ProjectionPanel({
+  course,
+  badge,
+}: {
+  course: Course;
+  badge?: React.ReactNode;
+}) {
+  const p = useMemo(() => calcProjection(course), [course]);
+  // Positions on a 0–100 track; the total may not be exactly 100
+  const at = (v: number) => `${clamp(v)}%`;
 
   return (
-    <div className="mx-auto max-w-6xl p-4 space-y-4">
-      <div className="flex items-center justify-between">
-        <div className="flex items-center gap-2">
-          <Button variant="ghost" onClick={onBack}>
-            <ArrowLeft className="h-4 w-4" /> Back
-          </Button>
-          <EditCourseName course={course} />
-        </div>
+    <div className="rounded-2xl border border-neutral-200 dark:border-neutral-800 p-4 bg-white dark:bg-neutral-950">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
         <div className="flex items-center gap-2">
-          <Button variant="outline" onClick={() => setAddOpen(true)}>
-            <Plus className="h-4 w-4" /> Add Assignment
-          </Button>
-          <Button
-            variant="ghost"
-            onClick={() => {
-              if (confirm("Delete this course?")) {
-                removeCourse(course.id);
-                onBack();
-              }
-            }}
-          >
-            <Trash2 className="h-4 w-4 text-rose-600" /> Delete Course
-          </Button>
+          <TrendingUp className="h-4 w-4" />
+          <span className="font-semibold">Projected final</span>
+          {badge}
         </div>
+        {p && (
+          <Badge intent={p.confidence === "low" ? "default" : "info"}>
+            {CONFIDENCE_LABELS[p.confidence]} ·{" "}
+            {(p.settledShare * 100).toFixed(0)}% graded
+          </Badge>
+        )}
       </div>
 
-      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
-        <div className="rounded-2xl border border-neutral-200 dark:border-neutral-800 p-4 bg-white dark:bg-neutral-950">
-          <div className="flex items-center gap-2 mb-2">
-            <Gauge className="h-4 w-4" />
-            <span className="font-semibold">Completed (weighted)</span>
-          </div>
-          <div className="flex items-center gap-4">
-            <Donut value={completedWeighted} celebrate={true} />
+      {p == null ? (
+        <p className="text-sm text-neutral-500">
+          Grade at least one weighted assignment to see a projection.
+        </p>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-baseline gap-x-6 gap-y-1">
             <div>
-              <div className="text-3xl font-semibold">
-                {completedWeighted.toFixed(1)}%
-              </div>
-              <div className="text-xs text-neutral-500">
-                Total weights: {totalWeights.toFixed(1)}%
-              </div>
-              {Math.abs(totalWeights - 100) > 0.01 && (
-                <div className="mt-1 inline-flex items-center gap-1 text-xs text-amber-700 bg-amber-100 dark:text-amber-300 dark:bg-amber-900/30 rounded-md px-2 py-1">
-                  <AlertTriangle className="h-3.5 w-3.5" /> Weights do not sum
-                  to 100%
-                </div>
-              )}
+              <span className="text-3xl font-semibold">
+                {p.expected.toFixed(1)}%
+              </span>{" "}
+              <span className="text-sm text-neutral-500">expected</span>
+            </div>
+            <div className="text-sm text-neutral-500">
+              Worst{" "}
+              <span className="font-medium text-neutral-900 dark:text-neutral-100">
+                {p.worst.toFixed(1)}%
+              </span>{" "}
+              · Best{" "}
+              <span className="font-medium text-neutral-900 dark:text-neutral-100">
+                {p.best.toFixed(1)}%
+              </span>
             </div>
           </div>
-        </div>
-        <div className="rounded-2xl border border-neutral-200 dark:border-neutral-800 p-4 bg-white dark:bg-neutral-950">
-          <div className="flex items-center gap-2 mb-2">
-            <Info className="h-4 w-4" />
-            <span className="font-semibold">Grade So Far</span>
-          </div>
-          <div className="text-3xl font-semibold">
-            {gradeSoFar == null ? "—" : gradeSoFar.toFixed(1) + "%"}
+          <div className="relative h-3 rounded-full bg-neutral-100 dark:bg-neutral-800">
+            <div
+              className="absolute inset-y-0 rounded-full bg-neutral-200 dark:bg-neutral-700"
+              style={{ left: at(p.min), width: at(p.max - p.min) }}
+              title={`Possible: ${p.min.toFixed(1)}–${p.max.toFixed(1)}%`}
+            />
+            <div
+              className="absolute inset-y-0 rounded-full bg-sky-300 dark:bg-sky-700"
+              style={{ left: at(p.worst), width: at(p.best - p.worst) }}
+            />
+            <div
+              className="absolute -inset-y-1 w-1 rounded-full bg-neutral-900 dark:bg-white"
+              style={{ left: at(p.expected) }}
+            />
           </div>
-          <p className="mt-1 text-sm text-neutral-500">
-            Average over completed work only.
+          <p className="text-xs text-neutral-500">
+            Assumes the remaining {p.remainingWeight.toFixed(1)}% goes like your
+            work so far ({p.average.toFixed(1)}% average, ±{p.spread.toFixed(1)}
+            ). Anything from {p.min.toFixed(1)}% to {p.max.toFixed(1)}% is still
+            possible.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function TargetPanel({ course }: { course: Course }) {
+  const setTarget = useCourseStore((s) => s.setCourseTarget);
+  const [draft, setDraft] = useState<string>(
+    course.target == null ? "" : String(course.target)
+  );
+  useEffect(
+    () => setDraft(course.target == null ? "" : String(course.target)),
+    [course.target]
+  );
+
+  const result = useMemo(
+    () => (course.target == null ? null : calcTarget(course, course.target)),
+    [course]
+  );
+
+  return (
+    <div className="rounded-2xl border border-neutral-200 dark:border-neutral-800 p-4 bg-white dark:bg-neutral-950">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Target className="h-4 w-4" />
+          <span className="font-semibold">What do I need?</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-neutral-500">Target final mark</label>
+          <Input
+            type="number"
+            step="any"
+            placeholder="e.g., 80"
+            value={draft}
+            className="w-24"
+            onChange={(e) => {
+              const v = stripLeadingZerosInput(e.target.value);
+              setDraft(v);
+              const n = Number(v);
+              if (v === "") setTarget(course.id, null);
+              else if (isFinite(n) && n >= 0 && n <= 100)
+                setTarget(course.id, n);
+            }}
+          />
+          <span className="text-sm text-neutral-500">%</span>
+        </div>
+      </div>
+
+      {result == null ? (
+        <p className="text-sm text-neutral-500">
+          Enter the final mark you are aiming for (0–100).
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {result.outcome === "locked_in" && (
+            <div className="inline-flex items-center gap-1 rounded-md bg-emerald-100 px-2 py-1 text-sm text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300">
+              <CheckCircle2 className="h-4 w-4" /> Locked in — you already have{" "}
+              {result.earned.toFixed(1)}%, even with zeros on the rest.
+            </div>
+          )}
+          {result.outcome === "unreachable" && (
+            <div className="inline-flex items-center gap-1 rounded-md bg-rose-100 px-2 py-1 text-sm text-rose-700 dark:bg-rose-900/40 dark:text-rose-300">
+              <AlertTriangle className="h-4 w-4" /> Out of reach — the most you
+              can still finish with is {result.maxPossible.toFixed(1)}%.
+            </div>
+          )}
+          {result.outcome === "reachable" && result.neededAverage != null && (
+            <div className="text-sm">
+              You need an average of{" "}
+              <span className="text-lg font-semibold">
+                {result.neededAverage.toFixed(1)}%
+              </span>{" "}
+              on the remaining {result.remainingWeight.toFixed(1)}% of the
+              course.
+            </div>
+          )}
+          {Math.abs(result.totalWeights - 100) > 0.01 && (
+            <p className="text-xs text-amber-700 dark:text-amber-300">
+              Weights sum to {result.totalWeights.toFixed(1)}%, so the target is
+              measured against that total.
+            </p>
+          )}
+          {result.outcome === "reachable" &&
+            result.perAssignment.length > 0 && (
+              <div className="divide-y divide-neutral-200 dark:divide-neutral-800 rounded-xl border border-neutral-200 dark:border-neutral-800 text-sm">
+                {result.perAssignment.map(
+                  ({ assignment, weight, needed, contributes }) => (
+                    <div
+                      key={assignment.id}
+                      className="flex items-center justify-between gap-3 px-3 py-2"
+                    >
+                      <span className="truncate">
+                        {assignment.title || "Untitled"}
+                      </span>
+                      <span className="shrink-0 text-neutral-500">
+                        {weight.toFixed(1)}% weight · need{" "}
+                        <span className="font-medium text-neutral-900 dark:text-neutral-100">
+                          {needed.toFixed(1)}%
+                        </span>{" "}
+                        (+{contributes.toFixed(2)}% of course)
+                      </span>
+                    </div>
+                  )
+                )}
+              </div>
+            )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CategoryPanel({ course }: { course: Course }) {
+  const addCategory = useCourseStore((s) => s.addCategory);
+  const updateCategory = useCourseStore((s) => s.updateCategory);
+  const removeCategory = useCourseStore((s) => s.removeCategory);
+  const categories = course.categories ?? [];
+
+  const toCount = (v: string) => {
+    const n = Math.floor(Number(v));
+    return isFinite(n) && n > 0 ? n : 0;
+  };
+
+  return (
+    <div className="rounded-2xl border border-neutral-200 dark:border-neutral-800 p-4 bg-white dark:bg-neutral-950">
+      <div className="mb-3 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Layers className="h-4 w-4" />
+          <span className="font-semibold">Categories</span>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() =>
+            addCategory(course.id, {
+              name: "New category",
+              weight: 0,
+              dropLowest: 0,
+              bestOf: null,
+              weighting: "equal",
+            })
+          }
+        >
+          <Plus className="h-4 w-4" /> Add Category
+        </Button>
+      </div>
+      {categories.length === 0 ? (
+        <p className="text-sm text-neutral-500">
+          Group assignments like "Labs 20% (drop lowest 2)" or "Quizzes 10%
+          (best 5 of 7)". Assignments outside a category keep their own weight.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          <div className="hidden sm:grid grid-cols-6 gap-2 px-1 text-xs text-neutral-500">
+            <span className="col-span-2">Name</span>
+            <span>Weight</span>
+            <span>Drop lowest</span>
+            <span>Best of</span>
+            <span>Split</span>
+          </div>
+          {categories.map((cat) => {
+            const members = course.assignments.filter(
+              (a) => a.categoryId === cat.id
+            ).length;
+            return (
+              <div key={cat.id} className="flex items-center gap-2">
+                <div className="grid flex-1 grid-cols-2 sm:grid-cols-6 gap-2">
+                  <div className="col-span-2">
+                    <Input
+                      value={cat.name}
+                      onChange={(e) =>
+                        updateCategory(course.id, cat.id, {
+                          name: e.target.value,
+                        })
+                      }
+                      placeholder={`Name (${members} items)`}
+                    />
+                  </div>
+                  <Input
+                    type="number"
+                    step="any"
+                    value={cat.weight}
+                    title="Accepts % (0–100) or fraction (0–1)"
+                    onChange={(e) => {
+                      const v = stripLeadingZerosInput(e.target.value);
+                      updateCategory(course.id, cat.id, {
+                        weight: v === "" ? 0 : Number(v),
+                      });
+                    }}
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    value={cat.dropLowest}
+                    onChange={(e) =>
+                      updateCategory(course.id, cat.id, {
+                        dropLowest: toCount(e.target.value),
+                      })
+                    }
+                  />
+                  <Input
+                    type="number"
+                    min={1}
+                    placeholder="All"
+                    value={cat.bestOf ?? ""}
+                    onChange={(e) =>
+                      updateCategory(course.id, cat.id, {
+                        bestOf: toCount(e.target.value) || null,
+                      })
+                    }
+                  />
+                  <SelectBox
+                    value={cat.weighting}
+                    onChange={(v) =>
+                      updateCategory(course.id, cat.id, {
+                        weighting: v as CategoryWeighting,
+                      })
+                    }
+                  >
+                    <option value="equal">Equal</option>
+                    <option value="points">By points</option>
+                  </SelectBox>
+                </div>
+                <button
+                  className="rounded-xl p-2 border border-neutral-200 dark:border-neutral-800 hover:bg-neutral-50 dark:hover:bg-neutral-800"
+                  onClick={() => {
+                    removeCategory(course.id, cat.id);
+                    toastUndo(`Removed category "${cat.name}"`);
+                  }}
+                  title="Remove category"
+                >
+                  <Trash2 className="h-4 w-4 text-rose-600" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ScalesModal({
+  open,
+  onClose,
+}: {
+  open: boolean;
+  onClose: () => void;
+}) {
+  const scales = useCourseStore((s) => s.scales);
+  const addScale = useCourseStore((s) => s.addScale);
+  const removeScale = useCourseStore((s) => s.removeScale);
+  const [name, setName] = useState("");
+  const [table, setTable] = useState("");
+  const [errs, setErrs] = useState<string[]>([]);
+
+  const onSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const { bands, errors } = parseScaleTable(table);
+    const all = name.trim() ? errors : ["Scale name is required", ...errors];
+    setErrs(all);
+    if (all.length) return;
+    addScale({ name: name.trim(), bands });
+    setName("");
+    setTable("");
+  };
+
+  return (
+    <Modal open={open} onClose={onClose} title="Grading Scales">
+      <div className="space-y-4">
+        <div className="space-y-2 text-sm">
+          {[...BUILTIN_SCALES, ...scales].map((sc) => (
+            <div
+              key={sc.id}
+              className="flex items-center justify-between gap-2 rounded-xl border border-neutral-200 dark:border-neutral-800 px-3 py-2"
+            >
+              <div className="min-w-0">
+                <div className="font-medium">{sc.name}</div>
+                <div className="truncate text-xs text-neutral-500">
+                  {sc.bands
+                    .slice()
+                    .sort((a, b) => b.min - a.min)
+                    .map(
+                      (b) =>
+                        `${b.letter} ≥${b.min}${
+                          b.points == null ? "" : ` (${b.points})`
+                        }`
+                    )
+                    .join(" · ")}
+                </div>
+              </div>
+              {scales.includes(sc) && (
+                <button
+                  className="rounded-xl p-2 border border-neutral-200 dark:border-neutral-800 hover:bg-neutral-50 dark:hover:bg-neutral-800"
+                  onClick={() => {
+                    removeScale(sc.id);
+                    toastUndo(`Removed scale "${sc.name}"`);
+                  }}
+                  title="Remove scale"
+                >
+                  <Trash2 className="h-4 w-4 text-rose-600" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+        <form noValidate className="space-y-3" onSubmit={onSubmit}>
+          <div>
+            <label className="mb-1 block text-sm font-medium">
+              New scale name
+            </label>
+            <Input
+              type="text"
+              placeholder="e.g., My school"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="mb-1 block text-sm font-medium">Table</label>
+            <textarea
+              rows={5}
+              value={table}
+              onChange={(e) => setTable(e.target.value)}
+              placeholder={"A 85 4.0\nB 75 3.0\nC 65 2.0\nF 0 0"}
+              className="w-full rounded-xl border border-neutral-300 dark:border-neutral-700 bg-white dark:bg-neutral-900 px-3 py-2 text-sm font-mono outline-none focus:ring-2 focus:ring-neutral-900 dark:focus:ring-white"
+            />
+            <p className="mt-1 text-xs text-neutral-500">
+              One band per line: letter, minimum %, grade points (optional)
+            </p>
+            {errs.map((m) => (
+              <p key={m} className="mt-1 text-xs text-rose-600">
+                {m}
+              </p>
+            ))}
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={onClose} type="button">
+              Close
+            </Button>
+            <Button type="submit">Add Scale</Button>
+          </div>
+        </form>
+      </div>
+    </Modal>
+  );
+}
+
+function GradingPanel({ course }: { course: Course }) {
+  const scales = useCourseStore((s) => s.scales);
+  const updateCourse = useCourseStore((s) => s.updateCourse);
+  const [scalesOpen, setScalesOpen] = useState(false);
+  const { scale, band, credits } = useMemo(
+    () => courseLetter(course, scales),
+    [course, scales]
+  );
+
+  return (
+    <div className="rounded-2xl border border-neutral-200 dark:border-neutral-800 p-4 bg-white dark:bg-neutral-950">
+      <div className="mb-3 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <GraduationCap className="h-4 w-4" />
+          <span className="font-semibold">Letter Grade</span>
+        </div>
+        <Button variant="ghost" onClick={() => setScalesOpen(true)}>
+          Manage scales
+        </Button>
+      </div>
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="text-3xl font-semibold">
+          {band ? band.letter : "—"}
+          {band?.points != null && (
+            <span className="ml-2 text-base text-neutral-500">
+              {band.points.toFixed(2)}
+            </span>
+          )}
+        </div>
+        <div className="w-48">
+          <label className="mb-1 block text-xs text-neutral-500">Scale</label>
+          <SelectBox
+            value={scale.id}
+            onChange={(v) => updateCourse(course.id, { scaleId: v })}
+          >
+            {[...BUILTIN_SCALES, ...scales].map((sc) => (
+              <option key={sc.id} value={sc.id}>
+                {sc.name}
+              </option>
+            ))}
+          </SelectBox>
+        </div>
+        <div className="w-28">
+          <label className="mb-1 block text-xs text-neutral-500">Credits</label>
+          <Input
+            type="number"
+            step="any"
+            min={0}
+            value={course.credits ?? ""}
+            placeholder={String(credits)}
+            onChange={(e) => {
+              const v = stripLeadingZerosInput(e.target.value);
+              const n = Number(v);
+              updateCourse(course.id, {
+                credits: v === "" || !isFinite(n) || n < 0 ? null : n,
+              });
+            }}
+          />
+        </div>
+      </div>
+      <p className="mt-2 text-xs text-neutral-500">
+        Based on Grade So Far. Courses count {DEFAULT_CREDITS} credits unless
+        set.
+      </p>
+      <ScalesModal open={scalesOpen} onClose={() => setScalesOpen(false)} />
+    </div>
+  );
+}
+
+// Offsets for one course or assignment; null follows the level above
+function ReminderPicker({
+  value,
+  inherited,
+  onChange,
+}: {
+  value: ReminderOffset[] | null | undefined;
+  inherited: ReminderOffset[];
+  onChange: (v: ReminderOffset[] | null) => void;
+}) {
+  const own = value ?? null;
+  const shown = own ?? inherited;
+  return (
+    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
+      <label className="inline-flex items-center gap-1.5 text-neutral-500">
+        <input
+          type="checkbox"
+          checked={own == null}
+          onChange={(e) => onChange(e.target.checked ? null : inherited)}
+        />
+        Default
+      </label>
+      {REMINDER_OFFSETS.map((o) => (
+        <label
+          key={o.id}
+          className={`inline-flex items-center gap-1.5 ${
+            own == null ? "opacity-50" : ""
+          }`}
+        >
+          <input
+            type="checkbox"
+            disabled={own == null}
+            checked={shown.includes(o.id)}
+            onChange={(e) =>
+              onChange(
+                REMINDER_OFFSETS.map((x) => x.id).filter((id) =>
+                  id === o.id ? e.target.checked : shown.includes(id)
+                )
+              )
+            }
+          />
+          {o.label}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+function DueSettingsModal({
+  open,
+  onClose,
+}: {
+  open: boolean;
+  onClose: () => void;
+}) {
+  const due = useSettingsStore((s) => s.due);
+  const setDue = useSettingsStore((s) => s.setDue);
+  const [zone, setZone] = useState(due.timeZone ?? "");
+  useEffect(() => setZone(due.timeZone ?? ""), [due.timeZone]);
+  const zones = useMemo(
+    () =>
+      (
+        Intl as typeof Intl & {
+          supportedValuesOf?: (key: "timeZone") => string[];
+        }
+      ).supportedValuesOf?.("timeZone") ?? [],
+    []
+  );
+  const deviceZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const invalid = zone.trim() !== "" && !isValidTimeZone(zone.trim());
+
+  return (
+    <Modal open={open} onClose={onClose} title="Due dates">
+      <div className="space-y-4 text-sm">
+        <div>
+          <label className="mb-1 block font-medium">Time zone</label>
+          <Input
+            list="markmate-time-zones"
+            value={zone}
+            placeholder={`This device (${deviceZone})`}
+            className={invalid ? "ring-2 ring-rose-500" : ""}
+            onChange={(e) => {
+              const v = e.target.value;
+              setZone(v);
+              if (v.trim() === "") setDue({ timeZone: null });
+              else if (isValidTimeZone(v.trim()))
+                setDue({ timeZone: v.trim() });
+            }}
+          />
+          <datalist id="markmate-time-zones">
+            {zones.map((z) => (
+              <option key={z} value={z} />
+            ))}
+          </datalist>
+          {invalid && (
+            <p className="mt-1 text-xs text-rose-600">
+              Unknown time zone — use a name like America/Toronto.
+            </p>
+          )}
+        </div>
+        <div>
+          <label className="mb-1 block font-medium">Due time</label>
+          <Input
+            type="time"
+            value={due.dueTime}
+            className="w-36"
+            onChange={(e) =>
+              setDue({
+                dueTime: e.target.value || DEFAULT_DUE_SETTINGS.dueTime,
+              })
+            }
+          />
+        </div>
+        <p className="text-xs text-neutral-500">
+          Work that isn&apos;t submitted or graded counts as overdue after{" "}
+          {due.dueTime} on its due date ({due.timeZone ?? deviceZone}).
+          Reminders use the same time zone.
+        </p>
+      </div>
+    </Modal>
+  );
+}
+
+// Heading and a few identifying lines for one side of a conflict
+function describeRecord(
+  ch: SyncChange | undefined,
+  courses: Course[]
+): { title: string; lines: string[] } {
+  if (!ch?.value) return { title: "Deleted", lines: [] };
+  switch (ch.kind) {
+    case "assignment": {
+      const a = ch.value;
+      const course = courses.find((c) => c.id === ch.courseId);
+      return {
+        title: a.title,
+        lines: [
+          course ? `In ${course.name}` : "",
+          `Due ${a.dueDate ?? "—"} · weight ${a.weight}%`,
+          `${STATUS_LABELS[a.status]} · ${formatScore(a) || "no grade"}`,
+        ].filter(Boolean),
+      };
+    }
+    case "course":
+      return {
+        title: ch.value.name,
+        lines: [
+          `Target ${ch.value.target ?? "—"} · credits ${
+            ch.value.credits ?? DEFAULT_CREDITS
+          }`,
+          `${ch.value.categories?.length ?? 0} categories`,
+        ],
+      };
+    case "term":
+      return {
+        title: ch.value.name,
+        lines: [ch.value.archived ? "Archived" : "Current"],
+      };
+    case "scale":
+      return {
+        title: ch.value.name,
+        lines: [`${ch.value.bands.length} grade bands`],
+      };
+  }
+}
+
+const KIND_LABELS: Record<SyncChange["kind"], string> = {
+  course: "Course",
+  assignment: "Assignment",
+  term: "Term",
+  scale: "Grading scale",
+};
+
+function ConflictRow({ conflict }: { conflict: SyncConflict }) {
+  const courses = useCourseStore((s) => s.courses);
+  const pending = useServerSyncStore((s) => s.pending[conflict.key]);
+  // Re-read on every render; `courses` above keeps it current
+  const mine = localRecords().get(conflict.key);
+  const kind = conflict.server?.kind ?? pending?.kind ?? "assignment";
+  const sides = [
+    {
+      label: "This device",
+      at: new Date(conflict.localAt),
+      record: describeRecord(mine, courses),
+      keep: "mine" as const,
+    },
+    {
+      label: "Server",
+      at: conflict.server ? new Date(conflict.server.modifiedAt) : null,
+      record: describeRecord(
+        conflict.server ? changeOf(conflict.server) : undefined,
+        courses
+      ),
+      keep: "server" as const,
+    },
+  ];
+  return (
+    <div className="rounded-xl border border-neutral-200 p-3 dark:border-neutral-800">
+      <div className="mb-2 text-xs font-medium uppercase tracking-wide text-neutral-500">
+        {KIND_LABELS[kind]}
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        {sides.map((side) => (
+          <div key={side.keep} className="space-y-1">
+            <div className="text-xs text-neutral-500">
+              {side.label}
+              {side.at && ` · ${side.at.toLocaleString()}`}
+            </div>
+            <div className="font-medium">{side.record.title}</div>
+            {side.record.lines.map((line) => (
+              <div key={line} className="text-xs text-neutral-500">
+                {line}
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              onClick={() => resolveConflict(conflict.key, side.keep)}
+            >
+              Keep this
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function ServerSyncModal({
+  open,
+  onClose,
+}: {
+  open: boolean;
+  onClose: () => void;
+}) {
+  const sync = useServerSyncStore();
+  const [url, setUrl] = useState(sync.url ?? "http://localhost:8787");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [signInError, setSignInError] = useState<string | null>(null);
+  const queued = Object.keys(sync.pending).length;
+
+  const signIn = async (create: boolean) => {
+    setSignInError(null);
+    try {
+      await connectServer(url, username, password, create);
+      setPassword("");
+    } catch (e) {
+      setSignInError(
+        e instanceof TypeError
+          ? "Couldn't reach the server"
+          : e instanceof Error
+          ? e.message
+          : String(e)
+      );
+    }
+  };
+
+  return (
+    <Modal open={open} onClose={onClose} title="Sync server" wide>
+      <div className="space-y-4 text-sm">
+        {!sync.token ? (
+          <>
+            <p className="text-neutral-500">
+              Keep your courses on a MarkMate sync server (run one with{" "}
+              <code>npm run sync-server</code>) to use them on several devices.
+              Without one, data stays in this browser only.
+            </p>
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+              <div>
+                <label className="mb-1 block font-medium">Server</label>
+                <Input value={url} onChange={(e) => setUrl(e.target.value)} />
+              </div>
+              <div>
+                <label className="mb-1 block font-medium">Username</label>
+                <Input
+                  value={username}
+                  autoComplete="username"
+                  onChange={(e) => setUsername(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="mb-1 block font-medium">Password</label>
+                <Input
+                  type="password"
+                  value={password}
+                  autoComplete="current-password"
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+            </div>
+            {(signInError ?? sync.error) && (
+              <p className="text-xs text-rose-600">
+                {signInError ?? sync.error}
+              </p>
+            )}
+            <div className="flex gap-2">
+              <Button
+                onClick={() => signIn(false)}
+                disabled={!url || !username || !password}
+              >
+                Sign in
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => signIn(true)}
+                disabled={!url || !username || !password}
+              >
+                Create account
+              </Button>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-3">
+              <div className="flex-1 min-w-0">
+                <div className="font-medium">
+                  Signed in as {sync.username} on {sync.url}
+                </div>
+                <div className="text-xs text-neutral-500">
+                  {sync.busy
+                    ? "Syncing…"
+                    : sync.lastSyncedAt
+                    ? `Last synced ${new Date(
+                        sync.lastSyncedAt
+                      ).toLocaleString()}`
+                    : "Not synced yet"}
+                  {queued > 0 && ` · ${queued} change(s) waiting to upload`}
+                </div>
+                {sync.error && (
+                  <div className="text-xs text-rose-600">{sync.error}</div>
+                )}
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => void syncWithServer()}
+                disabled={sync.busy}
+              >
+                <RefreshCw className="h-4 w-4" /> Sync now
+              </Button>
+              <Button variant="ghost" onClick={() => void disconnectServer()}>
+                Sign out
+              </Button>
+            </div>
+            {sync.conflicts.length > 0 && (
+              <div className="space-y-2">
+                <div className="font-medium">
+                  Changed here and on another device
+                </div>
+                <p className="text-xs text-neutral-500">
+                  Pick the version to keep. The other one is replaced
+                  everywhere.
+                </p>
+                {sync.conflicts.map((c) => (
+                  <ConflictRow key={c.key} conflict={c} />
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+}
+
+function RemindersModal({
+  open,
+  onClose,
+}: {
+  open: boolean;
+  onClose: () => void;
+}) {
+  const enabled = useReminderStore((s) => s.enabled);
+  const defaults = useReminderStore((s) => s.defaults);
+  const setEnabled = useReminderStore((s) => s.setEnabled);
+  const setDefaults = useReminderStore((s) => s.setDefaults);
+  const supported = typeof Notification !== "undefined";
+  const [permission, setPermission] = useState(
+    supported ? Notification.permission : "denied"
+  );
+
+  const enable = async (on: boolean) => {
+    if (on && permission !== "granted") {
+      const p = await Notification.requestPermission();
+      setPermission(p);
+      if (p !== "granted") return;
+    }
+    setEnabled(on);
+  };
+
+  return (
+    <Modal open={open} onClose={onClose} title="Deadline reminders">
+      <div className="space-y-4 text-sm">
+        {!supported ? (
+          <p className="text-neutral-500">
+            This browser does not support notifications.
+          </p>
+        ) : (
+          <>
+            <label className="flex items-center gap-2 font-medium">
+              <input
+                type="checkbox"
+                checked={enabled && permission === "granted"}
+                onChange={(e) => enable(e.target.checked)}
+              />
+              Notify me before assignments are due
+            </label>
+            {permission === "denied" && (
+              <div className="inline-flex items-center gap-1 rounded-md bg-amber-100 px-2 py-1 text-xs text-amber-700 dark:bg-amber-900/30 dark:text-amber-300">
+                <AlertTriangle className="h-3.5 w-3.5" /> Notifications are
+                blocked for this site in your browser settings.
+              </div>
+            )}
+            <div className="space-y-2">
+              <div className="font-medium">Default reminders</div>
+              <div className="flex flex-wrap gap-3">
+                {REMINDER_OFFSETS.map((o) => (
+                  <label
+                    key={o.id}
+                    className="inline-flex items-center gap-1.5"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={defaults.includes(o.id)}
+                      onChange={(e) =>
+                        setDefaults(
+                          REMINDER_OFFSETS.map((x) => x.id).filter((id) =>
+                            id === o.id
+                              ? e.target.checked
+                              : defaults.includes(id)
+                          )
+                        )
+                      }
+                    />
+                    {o.label}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-neutral-500">
+                Reminders go out at {REMINDER_HOUR}:00 while MarkMate is open in
+                any tab. Courses and single assignments can override these from
+                the course page.
+              </p>
+            </div>
+            {enabled && permission === "granted" && (
+              <Button
+                variant="outline"
+                onClick={() =>
+                  showReminder({
+                    key: "test",
+                    courseId: "",
+                    title: "MarkMate reminders are on",
+                    body: "You'll see deadlines like this one.",
+                  }).catch(() => {})
+                }
+              >
+                <Bell className="h-4 w-4" /> Send a test
+              </Button>
+            )}
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+}
+
+function CourseRemindersModal({
+  course,
+  open,
+  onClose,
+}: {
+  course: Course;
+  open: boolean;
+  onClose: () => void;
+}) {
+  const defaults = useReminderStore((s) => s.defaults);
+  const enabled = useReminderStore((s) => s.enabled);
+  const updateCourse = useCourseStore((s) => s.updateCourse);
+  const update = useCourseStore((s) => s.updateAssignment);
+  const upcoming = course.assignments
+    .filter((a) => a.dueDate && !isDone(a))
+    .sort((a, b) => a.dueDate!.localeCompare(b.dueDate!));
+
+  return (
+    <Modal open={open} onClose={onClose} title="Reminders" wide>
+      <div className="space-y-4">
+        {!enabled && (
+          <p className="text-sm text-neutral-500">
+            Reminders are off. Turn them on from the bell in the top bar.
+          </p>
+        )}
+        <div className="space-y-1">
+          <div className="font-medium">{course.name}</div>
+          <ReminderPicker
+            value={course.reminders}
+            inherited={defaults}
+            onChange={(v) => updateCourse(course.id, { reminders: v })}
+          />
+        </div>
+        <div className="divide-y divide-neutral-200 dark:divide-neutral-800 rounded-xl border border-neutral-200 dark:border-neutral-800">
+          {upcoming.length === 0 ? (
+            <div className="p-4 text-center text-sm text-neutral-500">
+              No upcoming dated assignments.
+            </div>
+          ) : (
+            upcoming.map((a) => (
+              <div key={a.id} className="space-y-1 px-3 py-2">
+                <div className="flex justify-between gap-2 text-sm">
+                  <span className="truncate font-medium">
+                    {a.title || "Untitled"}
+                  </span>
+                  <span className="shrink-0 text-neutral-500">
+                    {shortDate(a.dueDate!)}
+                  </span>
+                </div>
+                <ReminderPicker
+                  value={a.reminders}
+                  inherited={course.reminders ?? defaults}
+                  onChange={(v) => update(course.id, a.id, { reminders: v })}
+                />
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+// Hypothetical grades for ungraded work, kept local until applied. Saved
+// scenarios live on the course and are compared column by column.
+function WhatIfPanel({
+  course,
+  scores,
+  onChange,
+  onExit,
+}: {
+  course: Course;
+  scores: WhatIfScores;
+  onChange: (scores: WhatIfScores) => void;
+  onExit: () => void;
+}) {
+  const saveScenario = useCourseStore((s) => s.saveScenario);
+  const removeScenario = useCourseStore((s) => s.removeScenario);
+  const applyWhatIfScores = useCourseStore((s) => s.applyWhatIfScores);
+  const customScales = useCourseStore((s) => s.scales);
+  const [name, setName] = useState("");
+
+  const ungraded = course.assignments.filter((a) => gradePercent(a) == null);
+  const weights = useMemo(() => weighAssignments(course), [course]);
+  const scenarios = course.scenarios ?? [];
+  const columns = [
+    { key: "actual", name: "Actual", course },
+    { key: "sandbox", name: "Sandbox", course: applyWhatIf(course, scores) },
+    ...scenarios.map((sc) => ({
+      key: sc.id,
+      name: sc.name,
+      course: applyWhatIf(course, sc.scores),
+      scenario: sc,
+    })),
+  ].map((col) => ({
+    ...col,
+    metrics: calcMetrics(col.course),
+    letter: courseLetter(col.course, customScales).band?.letter ?? "—",
+  }));
+  const pct = (v: number | null) => (v == null ? "—" : v.toFixed(1) + "%");
+
+  // ScoreInput always emits a full score patch; a cleared one drops the entry
+  const setScore = (aId: string, score: ScoreFields) => {
+    const next = { ...scores };
+    if (score.grade == null && score.pointsEarned == null) delete next[aId];
+    else next[aId] = score;
+    onChange(next);
+  };
+
+  return (
+    <div className="rounded-2xl border border-violet-300 dark:border-violet-800 p-4 bg-violet-50/50 dark:bg-violet-950/20 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <FlaskConical className="h-4 w-4" />
+          <span className="font-semibold">What-if sandbox</span>
+          <span className="text-xs text-neutral-500">
+            Nothing is saved to your grades until you apply.
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" onClick={() => onChange({})}>
+            Clear
+          </Button>
+          <Button
+            variant="outline"
+            disabled={Object.keys(scores).length === 0}
+            onClick={() => {
+              applyWhatIfScores(course.id, scores);
+              onExit();
+              toastUndo("Applied what-if grades");
+            }}
+          >
+            <CheckCircle2 className="h-4 w-4" /> Apply grades
+          </Button>
+          <Button variant="ghost" onClick={onExit}>
+            <X className="h-4 w-4" /> Exit
+          </Button>
+        </div>
+      </div>
+
+      {ungraded.length === 0 ? (
+        <div className="text-sm text-neutral-500">
+          Every assignment already has a grade.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {ungraded.map((a) => (
+            <div key={a.id} className="flex items-center gap-2">
+              <div className="flex-1 min-w-0">
+                <div className="truncate text-sm font-medium">{a.title}</div>
+                <div className="text-xs text-neutral-500">
+                  {(weights.get(a.id)?.weight ?? 0).toFixed(1)}% of course
+                </div>
+              </div>
+              <div className="w-36">
+                <ScoreInput
+                  a={{ ...a, ...scores[a.id] }}
+                  onChange={(patch) => setScore(a.id, patch as ScoreFields)}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form
+        className="flex items-center gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (!name.trim()) return;
+          saveScenario(course.id, name.trim(), scores);
+          setName("");
+        }}
+      >
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Scenario name, e.g. Realistic"
+        />
+        <Button type="submit" variant="outline">
+          <Save className="h-4 w-4" /> Save scenario
+        </Button>
+      </form>
+
+      {scenarios.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-neutral-500">
+                <th className="py-1 pr-3 font-medium"></th>
+                {columns.map((col) => (
+                  <th key={col.key} className="py-1 pr-3 font-medium">
+                    <div className="flex items-center gap-1">
+                      <span className="truncate">{col.name}</span>
+                      {"scenario" in col && col.scenario && (
+                        <>
+                          <button
+                            className="text-xs text-violet-700 dark:text-violet-300 hover:underline"
+                            onClick={() => onChange(col.scenario.scores)}
+                            title="Load into sandbox"
+                          >
+                            Load
+                          </button>
+                          <button
+                            className="p-0.5"
+                            onClick={() => {
+                              removeScenario(course.id, col.scenario.id);
+                              toastUndo(`Deleted scenario "${col.name}"`);
+                            }}
+                            title="Delete scenario"
+                          >
+                            <Trash2 className="h-3.5 w-3.5 text-rose-600" />
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {(
+                [
+                  ["Completed", (m) => pct(m.completedWeighted)],
+                  ["Grade So Far", (m) => pct(m.gradeSoFar)],
+                  ["Current Mark", (m) => pct(m.currentMark)],
+                ] as [string, (m: ReturnType<typeof calcMetrics>) => string][]
+              ).map(([label, fmt]) => (
+                <tr
+                  key={label}
+                  className="border-t border-neutral-200 dark:border-neutral-800"
+                >
+                  <td className="py-1 pr-3 text-neutral-500">{label}</td>
+                  {columns.map((col) => (
+                    <td key={col.key} className="py-1 pr-3 font-medium">
+                      {fmt(col.metrics)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+              <tr className="border-t border-neutral-200 dark:border-neutral-800">
+                <td className="py-1 pr-3 text-neutral-500">Letter</td>
+                {columns.map((col) => (
+                  <td key={col.key} className="py-1 pr-3 font-medium">
+                    {col.letter}
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CourseDetail({
+  courseId,
+  onBack,
+}: {
+  courseId: string;
+  onBack: () => void;
+}) {
+  const course = useCourseStore(
+    (s) => s.courses.find((c) => c.id === courseId)!
+  );
+  const update = useCourseStore((s) => s.updateAssignment);
+  const remove = useCourseStore((s) => s.removeAssignment);
+  const removeCourse = useCourseStore((s) => s.removeCourse);
+  const updateCourse = useCourseStore((s) => s.updateCourse);
+  const terms = useCourseStore((s) => s.terms);
+  const [addOpen, setAddOpen] = useState(false);
+  const [recurringOpen, setRecurringOpen] = useState(false);
+  const [saveTemplateOpen, setSaveTemplateOpen] = useState(false);
+  const duplicateCourse = useCourseStore((s) => s.duplicateCourse);
+  // Ticked assignment ids while select mode is on; null = off
+  const [selection, setSelection] = useState<string[] | null>(null);
+  const [whatIf, setWhatIf] = useState<WhatIfScores | null>(null);
+  const [remindersOpen, setRemindersOpen] = useState(false);
+  const changedElsewhere = useSyncStore((s) => s.changed.includes(courseId));
+  const seen = useSyncStore((s) => s.seen);
+  useEffect(() => {
+    seen(courseId);
+    return () => seen(courseId);
+  }, [courseId, seen]);
+
+  const { weights } = useMemo(() => calcMetrics(course), [course]);
+  // Summary panels follow the sandbox while it is open
+  const shown = useMemo(
+    () => (whatIf ? applyWhatIf(course, whatIf) : course),
+    [course, whatIf]
+  );
+  const { completedWeighted, gradeSoFar, currentMark, totalWeights } = useMemo(
+    () => calcMetrics(shown),
+    [shown]
+  );
+  const whatIfBadge = whatIf && <Badge intent="info">What-if</Badge>;
+  // Assignments deleted meanwhile (here or in another tab) drop out
+  const selectedIds = (selection ?? []).filter((id) =>
+    course.assignments.some((a) => a.id === id)
+  );
+
+  return (
+    <div className="mx-auto max-w-6xl p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" onClick={onBack}>
+            <ArrowLeft className="h-4 w-4" /> Back
+          </Button>
+          <EditCourseName course={course} />
+          {terms.length > 0 && (
+            <div className="w-40">
+              <SelectBox
+                value={course.termId ?? ""}
+                onChange={(v) => updateCourse(course.id, { termId: v || null })}
+              >
+                <option value="">No term</option>
+                {terms.map((t) => (
+                  <option key={t.id} value={t.id}>
+                    {t.name}
+                    {t.archived ? " (archived)" : ""}
+                  </option>
+                ))}
+              </SelectBox>
+            </div>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setWhatIf(whatIf ? null : {})}
+          >
+            <FlaskConical className="h-4 w-4" /> What-if
+          </Button>
+          <Button
+            variant="ghost"
+            onClick={() => setRemindersOpen(true)}
+            title="Reminders"
+          >
+            <Bell className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            onClick={() => setSaveTemplateOpen(true)}
+            title="Save as template"
+          >
+            <LayoutTemplate className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            onClick={() => {
+              duplicateCourse(course.id);
+              toastUndo(`Added "${course.name} (copy)"`);
+            }}
+            title="Duplicate course"
+          >
+            <Copy className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" onClick={() => setAddOpen(true)}>
+            <Plus className="h-4 w-4" /> Add Assignment
+          </Button>
+          <Button
+            variant="ghost"
+            onClick={() => {
+              removeCourse(course.id);
+              onBack();
+              toastUndo(`Deleted "${course.name}"`);
+            }}
+          >
+            <Trash2 className="h-4 w-4 text-rose-600" /> Delete Course
+          </Button>
+        </div>
+      </div>
+
+      {changedElsewhere && (
+        <div className="flex items-center gap-3 rounded-2xl border border-sky-300 bg-sky-50 px-4 py-2 text-sm text-sky-800 dark:border-sky-800 dark:bg-sky-900/30 dark:text-sky-200">
+          <Info className="h-4 w-4 shrink-0" />
+          <span className="flex-1">
+            This course was just changed in another tab or on another device.
+            You're seeing the latest version.
+          </span>
+          <Button variant="ghost" onClick={() => seen(courseId)}>
+            Got it
+          </Button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="rounded-2xl border border-neutral-200 dark:border-neutral-800 p-4 bg-white dark:bg-neutral-950">
+          <div className="flex items-center gap-2 mb-2">
+            <Gauge className="h-4 w-4" />
+            <span className="font-semibold">Completed (weighted)</span>
+            {whatIfBadge}
+          </div>
+          <div className="flex items-center gap-4">
+            <Donut value={completedWeighted} celebrate={!whatIf} />
+            <div>
+              <div className="text-3xl font-semibold">
+                {completedWeighted.toFixed(1)}%
+              </div>
+              <div className="text-xs text-neutral-500">
+                Total weights: {totalWeights.toFixed(1)}%
+              </div>
+              {Math.abs(totalWeights - 100) > 0.01 && (
+                <div className="mt-1 inline-flex items-center gap-1 text-xs text-amber-700 bg-amber-100 dark:text-amber-300 dark:bg-amber-900/30 rounded-md px-2 py-1">
+                  <AlertTriangle className="h-3.5 w-3.5" /> Weights do not sum
+                  to 100%
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+        <div className="rounded-2xl border border-neutral-200 dark:border-neutral-800 p-4 bg-white dark:bg-neutral-950">
+          <div className="flex items-center gap-2 mb-2">
+            <Info className="h-4 w-4" />
+            <span className="font-semibold">Grade So Far</span>
+            {whatIfBadge}
+          </div>
+          <div className="text-3xl font-semibold">
+            {gradeSoFar == null ? "—" : gradeSoFar.toFixed(1) + "%"}
+          </div>
+          <p className="mt-1 text-sm text-neutral-500">
+            Average over marked work only.
+          </p>
+        </div>
+        <div className="rounded-2xl border border-neutral-200 dark:border-neutral-800 p-4 bg-white dark:bg-neutral-950">
+          <div className="flex items-center gap-2 mb-2">
+            <Info className="h-4 w-4" />
+            <span className="font-semibold">Current Mark</span>
+            {whatIfBadge}
+          </div>
+          <div className="text-3xl font-semibold">
+            {currentMark.toFixed(1)}%
+          </div>
+          <p className="mt-1 text-sm text-neutral-500">Counts missing as 0.</p>
+        </div>
+      </div>
+
+      {whatIf && (
+        <WhatIfPanel
+          course={course}
+          scores={whatIf}
+          onChange={setWhatIf}
+          onExit={() => setWhatIf(null)}
+        />
+      )}
+
+      <ProjectionPanel course={shown} badge={whatIfBadge} />
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <TargetPanel course={course} />
+        <GradingPanel course={course} />
+      </div>
+
+      <TrendPanel course={course} />
+
+      <CategoryPanel course={course} />
+
+      <div className="rounded-2xl border border-neutral-200 dark:border-neutral-800 p-4 bg-white dark:bg-neutral-950">
+        <div className="mb-3 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <CalendarDays className="h-4 w-4" />
+            <span className="font-semibold">Assignments</span>
+          </div>
+          <div className="flex items-center gap-2">
+            {course.assignments.length > 0 && !selection && (
+              <Button variant="ghost" onClick={() => setSelection([])}>
+                <ListChecks className="h-4 w-4" /> Select
+              </Button>
+            )}
+            <Button variant="ghost" onClick={() => setRecurringOpen(true)}>
+              <Repeat className="h-4 w-4" /> Recurring
+            </Button>
+            <Button variant="outline" onClick={() => setAddOpen(true)}>
+              <Plus className="h-4 w-4" /> Add Assignment
+            </Button>
+          </div>
+        </div>
+        {selection && (
+          <BulkAssignmentBar
+            course={course}
+            ids={selectedIds}
+            onSelectAll={() =>
+              setSelection(course.assignments.map((a) => a.id))
+            }
+            onDone={() => setSelection(null)}
+          />
+        )}
+        <div className="space-y-3">
+          {course.assignments.length === 0 ? (
+            <div className="rounded-xl border border-dashed border-neutral-300 dark:border-neutral-700 p-8 text-center text-neutral-500">
+              No assignments yet.
+            </div>
+          ) : (
+            course.assignments
+              .slice()
+              .sort((a, b) =>
+                (a.dueDate ?? "9999-12-31").localeCompare(
+                  b.dueDate ?? "9999-12-31"
+                )
+              )
+              .map((a) => (
+                <AssignmentRow
+                  key={a.id}
+                  a={a}
+                  categories={course.categories}
+                  effective={weights.get(a.id)}
+                  onChange={(patch) => update(course.id, a.id, patch)}
+                  onRemove={() => {
+                    remove(course.id, a.id);
+                    toastUndo(`Deleted "${a.title}"`);
+                  }}
+                  selected={selectedIds.includes(a.id)}
+                  onSelect={
+                    selection
+                      ? (on) =>
+                          setSelection(
+                            on
+                              ? [...selectedIds, a.id]
+                              : selectedIds.filter((id) => id !== a.id)
+                          )
+                      : undefined
+                  }
+                />
+              ))
+          )}
+        </div>
+      </div>
+
+      <AddAssignmentModal
+        open={addOpen}
+        onClose={() => setAddOpen(false)}
+        courseId={course.id}
+        categories={course.categories}
+      />
+      <RecurringAssignmentsModal
+        open={recurringOpen}
+        onClose={() => setRecurringOpen(false)}
+        courseId={course.id}
+        categories={course.categories}
+      />
+      {saveTemplateOpen && (
+        <SaveTemplateModal
+          course={course}
+          onClose={() => setSaveTemplateOpen(false)}
+        />
+      )}
+      <CourseRemindersModal
+        course={course}
+        open={remindersOpen}
+        onClose={() => setRemindersOpen(false)}
+      />
+    </div>
+  );
+}
+
+// ==========================
+// Calendar
+// ==========================
+export type CalendarMode = "month" | "week";
+
+const STATUS_DOT: Record<DisplayStatus, string> = {
+  not_started: "bg-neutral-400",
+  in_progress: "bg-amber-500",
+  submitted: "bg-sky-500",
+  graded: "bg-emerald-500",
+  overdue: "bg-rose-500",
+};
+
+const STATUS_LABELS: Record<DisplayStatus, string> = {
+  not_started: "Not started",
+  in_progress: "In progress",
+  submitted: "Submitted",
+  graded: "Graded",
+  overdue: "Overdue",
+};
+
+// Background for a day by total course weight due (percentage points)
+function heatClass(weight: number): string {
+  if (weight <= 0) return "";
+  if (weight < 5) return "bg-amber-50 dark:bg-amber-950/20";
+  if (weight < 10) return "bg-amber-100 dark:bg-amber-900/30";
+  if (weight < 20) return "bg-orange-200 dark:bg-orange-900/40";
+  return "bg-rose-200 dark:bg-rose-900/50";
+}
+
+type CalendarItem = {
+  course: Course;
+  color: string;
+  assignment: Assignment;
+  weight: number; // effective % of the course
+};
+
+function CalendarView({
+  onOpenCourse,
+}: {
+  onOpenCourse: (id: string) => void;
+}) {
+  const courses = useCourseStore((s) => s.courses);
+  const terms = useCourseStore((s) => s.terms);
+  const update = useCourseStore((s) => s.updateAssignment);
+  const due = useSettingsStore((s) => s.due);
+  const today = todayISO(due.timeZone);
+  const [mode, setMode] = useState<CalendarMode>("month");
+  const [anchor, setAnchor] = useState(today);
+  const [dropDay, setDropDay] = useState<string | null>(null);
+
+  // Courses in archived terms are finished and stay off the calendar
+  const byDay = useMemo(() => {
+    const map = new Map<string, CalendarItem[]>();
+    courses.forEach((course, i) => {
+      if (terms.find((t) => t.id === course.termId)?.archived) return;
+      const weights = weighAssignments(course);
+      for (const a of course.assignments) {
+        if (!a.dueDate) continue;
+        const item = {
+          course,
+          color: courseColor(i),
+          assignment: a,
+          weight: weights.get(a.id)?.weight ?? 0,
+        };
+        map.set(a.dueDate, [...(map.get(a.dueDate) ?? []), item]);
+      }
+    });
+    return map;
+  }, [courses, terms]);
+
+  const monthStart = anchor.slice(0, 8) + "01";
+  const first = startOfWeekISO(mode === "month" ? monthStart : anchor);
+  const weeks = mode === "month" ? 6 : 1;
+  const days = Array.from({ length: weeks * 7 }, (_, i) =>
+    addDaysISO(first, i)
+  );
+  const shift = (n: number) => {
+    if (mode === "week") return setAnchor(addDaysISO(anchor, 7 * n));
+    const d = new Date(monthStart + "T00:00:00");
+    d.setMonth(d.getMonth() + n);
+    setAnchor(toISODate(d));
+  };
+  const title =
+    mode === "month"
+      ? new Date(monthStart + "T00:00:00").toLocaleDateString(undefined, {
+          month: "long",
+          year: "numeric",
+        })
+      : `${shortDate(days[0])} – ${shortDate(days[6])}`;
+
+  const drop = (day: string, e: React.DragEvent) => {
+    e.preventDefault();
+    setDropDay(null);
+    try {
+      const { courseId, assignmentId } = JSON.parse(
+        e.dataTransfer.getData("text/plain")
+      );
+      update(courseId, assignmentId, { dueDate: day });
+    } catch {
+      // not one of our chips
+    }
+  };
+
+  return (
+    <div className="mx-auto max-w-6xl p-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" onClick={() => shift(-1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" onClick={() => setAnchor(today)}>
+            Today
+          </Button>
+          <Button variant="ghost" onClick={() => shift(1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <span className="text-lg font-semibold">{title}</span>
+        </div>
+        <div className="w-32">
+          <SelectBox value={mode} onChange={(v) => setMode(v as CalendarMode)}>
+            <option value="month">Month</option>
+            <option value="week">Week</option>
+          </SelectBox>
+        </div>
+      </div>
+
+      <div className="rounded-2xl border border-neutral-200 dark:border-neutral-800 bg-white dark:bg-neutral-950 overflow-hidden">
+        <div className="grid grid-cols-7 border-b border-neutral-200 dark:border-neutral-800 text-xs font-medium text-neutral-500">
+          {days.slice(0, 7).map((d) => (
+            <div key={d} className="px-2 py-1.5">
+              {new Date(d + "T00:00:00").toLocaleDateString(undefined, {
+                weekday: "short",
+              })}
+            </div>
+          ))}
+        </div>
+        <div className="grid grid-cols-7">
+          {days.map((day) => {
+            const items = byDay.get(day) ?? [];
+            const load = items.reduce((s, it) => s + it.weight, 0);
+            const outside =
+              mode === "month" && day.slice(0, 7) !== anchor.slice(0, 7);
+            return (
+              <div
+                key={day}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setDropDay(day);
+                }}
+                onDragLeave={() => setDropDay((d) => (d === day ? null : d))}
+                onDrop={(e) => drop(day, e)}
+                className={`border-b border-r border-neutral-200 dark:border-neutral-800 p-1.5 space-y-1 ${
+                  mode === "month" ? "min-h-28" : "min-h-64"
+                } ${heatClass(load)} ${
+                  dropDay === day ? "ring-2 ring-inset ring-sky-500" : ""
+                }`}
+              >
+                <div className="flex items-center justify-between text-xs">
+                  <span
+                    className={`${outside ? "text-neutral-400" : ""} ${
+                      day === today
+                        ? "rounded-full bg-neutral-900 px-1.5 text-white dark:bg-white dark:text-neutral-900"
+                        : ""
+                    }`}
+                  >
+                    {Number(day.slice(8))}
+                  </span>
+                  {load > 0 && (
+                    <span
+                      className="font-medium text-neutral-600 dark:text-neutral-300"
+                      title="Total course weight due this day"
+                    >
+                      {load.toFixed(load < 10 ? 1 : 0)}%
+                    </span>
+                  )}
+                </div>
+                {items.map(({ course, color, assignment: a, weight }) => (
+                  <div
+                    key={a.id}
+                    draggable
+                    onDragStart={(e) =>
+                      e.dataTransfer.setData(
+                        "text/plain",
+                        JSON.stringify({
+                          courseId: course.id,
+                          assignmentId: a.id,
+                        })
+                      )
+                    }
+                    onClick={() => onOpenCourse(course.id)}
+                    title={`${course.name}: ${a.title} · ${weight.toFixed(
+                      1
+                    )}% · ${STATUS_LABELS[displayStatus(a, due)]}`}
+                    className={`flex cursor-grab items-center gap-1 truncate rounded-md border-l-4 bg-white/80 px-1.5 py-0.5 text-xs shadow-sm dark:bg-neutral-900/80 ${
+                      isDone(a) ? "line-through opacity-60" : ""
+                    }`}
+                    style={{ borderLeftColor: color }}
+                  >
+                    <span
+                      className={`h-2 w-2 shrink-0 rounded-full ${
+                        STATUS_DOT[displayStatus(a, due)]
+                      }`}
+                    />
+                    <span className="truncate">{a.title || "Untitled"}</span>
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-neutral-500">
+        {[...STATUSES, "overdue" as const].map((st) => (
+          <span key={st} className="inline-flex items-center gap-1">
+            <span className={`h-2 w-2 rounded-full ${STATUS_DOT[st]}`} />
+            {STATUS_LABELS[st]}
+          </span>
+        ))}
+        <span>· Shading shows total weight due · Drag to reschedule</span>
+      </div>
+    </div>
+  );
+}
+
+// ==========================
+// Agenda
+// ==========================
+type AgendaGroup = "overdue" | "today" | "week" | "later";
+
+const AGENDA_GROUPS: { id: AgendaGroup; label: string }[] = [
+  { id: "overdue", label: "Overdue" },
+  { id: "today", label: "Today" },
+  { id: "week", label: "This week" },
+  { id: "later", label: "Later" },
+];
+
+// "This week" runs to Saturday; undated work sorts last under Later. Work
+// due earlier today becomes overdue once its due time passes.
+function agendaGroup(
+  a: Assignment,
+  today: string,
+  due: DueSettings
+): AgendaGroup {
+  if (isOverdue(a, due)) return "overdue";
+  if (!a.dueDate) return "later";
+  if (a.dueDate <= today) return "today";
+  return a.dueDate <= addDaysISO(startOfWeekISO(today), 6) ? "week" : "later";
+}
+
+function AgendaView({ onOpenCourse }: { onOpenCourse: (id: string) => void }) {
+  const courses = useCourseStore((s) => s.courses);
+  const terms = useCourseStore((s) => s.terms);
+  const update = useCourseStore((s) => s.updateAssignment);
+  const due = useSettingsStore((s) => s.due);
+  const [showDone, setShowDone] = useState(false);
+  const today = todayISO(due.timeZone);
+
+  const groups = useMemo(() => {
+    const out = new Map<AgendaGroup, CalendarItem[]>(
+      AGENDA_GROUPS.map((g) => [g.id, []])
+    );
+    courses.forEach((course, i) => {
+      if (terms.find((t) => t.id === course.termId)?.archived) return;
+      const weights = weighAssignments(course);
+      for (const a of course.assignments) {
+        // Finished work from past days is history, not agenda
+        if (isDone(a) && (!showDone || (a.dueDate ?? today) < today)) continue;
+        out.get(agendaGroup(a, today, due))!.push({
+          course,
+          color: courseColor(i),
+          assignment: a,
+          weight: weights.get(a.id)?.weight ?? 0,
+        });
+      }
+    });
+    for (const items of out.values())
+      items.sort(
+        (x, y) =>
+          (x.assignment.dueDate ?? "9999-12-31").localeCompare(
+            y.assignment.dueDate ?? "9999-12-31"
+          ) || y.weight - x.weight
+      );
+    return out;
+  }, [courses, terms, showDone, today, due]);
+
+  const empty = [...groups.values()].every((items) => items.length === 0);
+
+  return (
+    <div className="mx-auto max-w-6xl p-4 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-lg font-semibold">Upcoming</span>
+        <label className="inline-flex items-center gap-2 text-sm text-neutral-500">
+          <input
+            type="checkbox"
+            checked={showDone}
+            onChange={(e) => setShowDone(e.target.checked)}
+          />
+          Show submitted & graded
+        </label>
+      </div>
+      {empty && (
+        <div className="rounded-2xl border border-dashed p-10 text-center text-neutral-500 dark:border-neutral-800">
+          Nothing to do — no open assignments.
+        </div>
+      )}
+      {AGENDA_GROUPS.map(({ id, label }) => {
+        const items = groups.get(id)!;
+        if (items.length === 0) return null;
+        return (
+          <div
+            key={id}
+            className="rounded-2xl border border-neutral-200 dark:border-neutral-800 p-4 bg-white dark:bg-neutral-950"
+          >
+            <div className="mb-3 flex items-center gap-2">
+              <span
+                className={`font-semibold ${
+                  id === "overdue" ? "text-rose-600" : ""
+                }`}
+              >
+                {label}
+              </span>
+              <Badge intent={id === "overdue" ? "danger" : "default"}>
+                {items.length}
+              </Badge>
+            </div>
+            <div className="divide-y divide-neutral-200 dark:divide-neutral-800">
+              {items.map(({ course, color, assignment: a, weight }) => (
+                <div
+                  key={a.id}
+                  className="grid grid-cols-2 sm:grid-cols-[1fr_8rem_10rem_9rem] items-center gap-2 py-2"
+                >
+                  <div className="col-span-2 sm:col-span-1 min-w-0">
+                    <div className="truncate font-medium">
+                      {a.title || "Untitled"}
+                    </div>
+                    <button
+                      className="inline-flex items-center gap-1.5 text-xs text-neutral-500 hover:underline"
+                      onClick={() => onOpenCourse(course.id)}
+                    >
+                      <span
+                        className="h-2 w-2 rounded-full"
+                        style={{ background: color }}
+                      />
+                      {course.name}
+                    </button>
+                  </div>
+                  <div className="text-sm text-neutral-500">
+                    <div>{a.dueDate ? shortDate(a.dueDate) : "No date"}</div>
+                    <div className="text-xs">{weight.toFixed(1)}% weight</div>
+                  </div>
+                  <SelectBox
+                    value={a.status}
+                    onChange={(v) =>
+                      update(course.id, a.id, {
+                        status: v as AssignmentStatus,
+                      })
+                    }
+                  >
+                    {STATUSES.map((st) => (
+                      <option key={st} value={st}>
+                        {STATUS_LABELS[st]}
+                      </option>
+                    ))}
+                  </SelectBox>
+                  <ScoreInput
+                    a={a}
+                    onChange={(patch) => update(course.id, a.id, patch)}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// ==========================
+// Export / Import JSON (optional)
+// ==========================
+function downloadFile(filename: string, text: string, type: string) {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+type IcsRowOverride = {
+  include?: boolean;
+  title?: string;
+  dueDate?: string;
+  weight?: string;
+};
+
+function IcsImportModal({
+  events,
+  onClose,
+}: {
+  events: IcsEvent[];
+  onClose: () => void;
+}) {
+  const courses = useCourseStore((s) => s.courses);
+  const addCourseWithAssignments = useCourseStore(
+    (s) => s.addCourseWithAssignments
+  );
+  const addAssignments = useCourseStore((s) => s.addAssignments);
+
+  const [target, setTarget] = useState<string>("new");
+  const [newName, setNewName] = useState(
+    events.find((e) => e.calendar)?.calendar ?? "Imported calendar"
+  );
+  const [titleFrom, setTitleFrom] = useState<"summary" | "description">(
+    "summary"
+  );
+  const [stripPrefix, setStripPrefix] = useState(true);
+  const [defaultWeight, setDefaultWeight] = useState("0");
+  const [overrides, setOverrides] = useState<Record<number, IcsRowOverride>>(
+    {}
+  );
+  const [err, setErr] = useState("");
+
+  // Mapping step: derive each row from the event, then apply manual edits
+  const rows = useMemo(
+    () =>
+      events.map((ev, i) => {
+        let title =
+          titleFrom === "summary"
+            ? ev.summary
+            : ev.description.split("\n")[0] || ev.summary;
+        if (stripPrefix) title = title.replace(/^[^:]{1,40}:\s*/, "");
+        const pct = findPercent(`${ev.summary} ${ev.description}`);
+        return {
+          include: true,
+          title,
+          dueDate: ev.date ?? "",
+          weight: pct != null ? String(percentWeight(pct)) : defaultWeight,
+          ...overrides[i],
+        };
+      }),
+    [events, titleFrom, stripPrefix, defaultWeight, overrides]
+  );
+
+  const edit = (i: number, patch: IcsRowOverride) =>
+    setOverrides((o) => ({ ...o, [i]: { ...o[i], ...patch } }));
+
+  const onImport = () => {
+    const chosen = rows.filter((r) => r.include);
+    if (chosen.length === 0) return setErr("Select at least one event");
+    const bad = chosen.findIndex(
+      (r) =>
+        !r.title.trim() || !isFinite(Number(r.weight)) || Number(r.weight) < 0
+    );
+    if (bad >= 0)
+      return setErr(
+        `"${chosen[bad].title || "Untitled"}" needs a title and a weight ≥ 0`
+      );
+    if (target === "new" && !newName.trim())
+      return setErr("Course name is required");
+
+    const list = chosen.map((r) => ({
+      title: r.title.trim(),
+      dueDate: r.dueDate || null,
+      weight: Number(r.weight),
+      status: "not_started" as const,
+      grade: null,
+    }));
+    if (target === "new") addCourseWithAssignments(newName.trim(), list);
+    else addAssignments(target, list);
+    alert(`Imported ${chosen.length} assignment(s).`);
+    onClose();
+  };
+
+  return (
+    <Modal open onClose={onClose} title="Import Calendar" wide>
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="mb-1 block text-sm font-medium">
+              Add to course
+            </label>
+            <SelectBox value={target} onChange={setTarget}>
+              <option value="new">New course…</option>
+              {courses.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
+                </option>
+              ))}
+            </SelectBox>
+            {target === "new" && (
+              <Input
+                className="mt-2"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="Course name"
+              />
+            )}
+          </div>
+          <div>
+            <label className="mb-1 block text-sm font-medium">Title from</label>
+            <SelectBox
+              value={titleFrom}
+              onChange={(v) => setTitleFrom(v as "summary" | "description")}
+            >
+              <option value="summary">Event summary</option>
+              <option value="description">First line of description</option>
+            </SelectBox>
+            <label className="mt-2 flex items-center gap-2 text-xs text-neutral-500">
+              <input
+                type="checkbox"
+                checked={stripPrefix}
+                onChange={(e) => setStripPrefix(e.target.checked)}
+              />
+              Strip a "Course:" prefix from titles
+            </label>
+          </div>
+          <div>
+            <label className="mb-1 block text-sm font-medium">
+              Weight when none found
+            </label>
+            <Input
+              type="number"
+              step="any"
+              value={defaultWeight}
+              onChange={(e) =>
+                setDefaultWeight(stripLeadingZerosInput(e.target.value))
+              }
+            />
+            <p className="mt-1 text-xs text-neutral-500">
+              A "10%" in the summary or description is used when present (small
+              percents show as fractions: 1% is 0.01)
+            </p>
+          </div>
+        </div>
+
+        <div className="max-h-80 overflow-y-auto rounded-xl border border-neutral-200 dark:border-neutral-800">
+          {rows.length === 0 ? (
+            <div className="p-6 text-center text-sm text-neutral-500">
+              No events found in this file.
+            </div>
+          ) : (
+            rows.map((r, i) => (
+              <div
+                key={i}
+                className="grid grid-cols-[auto_1fr_10rem_6rem] items-center gap-2 border-b border-neutral-200 dark:border-neutral-800 px-3 py-2 last:border-b-0"
+              >
+                <input
+                  type="checkbox"
+                  checked={r.include}
+                  onChange={(e) => edit(i, { include: e.target.checked })}
+                />
+                <Input
+                  value={r.title}
+                  onChange={(e) => edit(i, { title: e.target.value })}
+                />
+                <Input
+                  type="date"
+                  value={r.dueDate}
+                  onChange={(e) => edit(i, { dueDate: e.target.value })}
+                />
+                <Input
+                  type="number"
+                  step="any"
+                  value={r.weight}
+                  onChange={(e) =>
+                    edit(i, { weight: stripLeadingZerosInput(e.target.value) })
+                  }
+                />
+              </div>
+            ))
+          )}
+        </div>
+
+        {err && <p className="text-xs text-rose-600">{err}</p>}
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-neutral-500">
+            {rows.filter((r) => r.include).length} of {rows.length} selected
+          </span>
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button onClick={onImport}>Import</Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+function CsvImportModal({
+  table,
+  onClose,
+}: {
+  table: string[][];
+  onClose: () => void;
+}) {
+  const courses = useCourseStore((s) => s.courses);
+  const addCourseWithAssignments = useCourseStore(
+    (s) => s.addCourseWithAssignments
+  );
+  const addAssignments = useCourseStore((s) => s.addAssignments);
+
+  const header = table[0];
+  const body = useMemo(() => table.slice(1), [table]);
+  const [step, setStep] = useState<"map" | "review">("map");
+  const [mapping, setMapping] = useState<CsvField[]>(() => {
+    const seen = new Set<CsvField>();
+    return header.map((h) => {
+      const f = guessCsvField(h);
+      if (f === "ignore" || seen.has(f)) return "ignore";
+      seen.add(f);
+      return f;
+    });
+  });
+  const [weightFormat, setWeightFormat] = useState<WeightFormat>("auto");
+  const [target, setTarget] = useState<string>("new");
+  const [newName, setNewName] = useState("Imported course");
+
+  const hasCourseColumn = mapping.includes("course");
+  const detected = useMemo(() => {
+    const i = mapping.indexOf("weight");
+    return detectWeightFormat(i < 0 ? [] : body.map((r) => r[i] ?? ""));
+  }, [mapping, body]);
+  const result = useMemo(
+    () => mapCsvRows(body, mapping, weightFormat),
+    [body, mapping, weightFormat]
+  );
+
+  // Rows without a course column go to the chosen target course
+  const fallbackName =
+    target === "new"
+      ? newName.trim() || "Imported course"
+      : courses.find((c) => c.id === target)?.name ?? "";
+  const byCourse = useMemo(() => {
+    const groups = new Map<string, CsvImportRow[]>();
+    for (const r of result.ok) {
+      const name = r.course ?? fallbackName;
+      groups.set(name, [...(groups.get(name) ?? []), r]);
+    }
+    return groups;
+  }, [result.ok, fallbackName]);
+
+  const findCourse = (name: string) =>
+    courses.find((c) => c.name.trim().toLowerCase() === name.toLowerCase());
+  const isExisting = (name: string) =>
+    (!hasCourseColumn && target !== "new") || findCourse(name) != null;
+
+  const setField = (i: number, f: CsvField) =>
+    setMapping((m) =>
+      m.map((cur, j) =>
+        j === i ? f : cur === f && f !== "ignore" ? "ignore" : cur
+      )
+    );
+
+  const onImport = () => {
+    let count = 0;
+    byCourse.forEach((rows, name) => {
+      const existing =
+        !hasCourseColumn && target !== "new" ? target : findCourse(name)?.id;
+      const { list, categories } = resolveCsvCategories(
+        courses.find((c) => c.id === existing)?.categories ?? [],
+        rows
+      );
+      if (existing) addAssignments(existing, list, categories);
+      else addCourseWithAssignments(name, list, undefined, categories);
+      count += rows.length;
+    });
+    alert(
+      `Imported ${count} assignment(s)` +
+        (result.errors.length
+          ? `, skipped ${result.errors.length} row(s).`
+          : ".")
+    );
+    onClose();
+  };
+
+  return (
+    <Modal open onClose={onClose} title="Import CSV" wide>
+      {step === "map" ? (
+        <div className="space-y-4">
+          <p className="text-sm text-neutral-500">
+            Step 1 of 2 — match each column to a field. {body.length} data
+            row(s) found.
+          </p>
+          <div className="max-h-72 overflow-y-auto rounded-xl border border-neutral-200 dark:border-neutral-800">
+            {header.map((h, i) => (
+              <div
+                key={i}
+                className="grid grid-cols-[1fr_1fr_12rem] items-center gap-3 border-b border-neutral-200 dark:border-neutral-800 px-3 py-2 text-sm last:border-b-0"
+              >
+                <span className="truncate font-medium">
+                  {h || `Column ${i + 1}`}
+                </span>
+                <span className="truncate text-xs text-neutral-500">
+                  {body.find((r) => (r[i] ?? "").trim())?.[i] ?? "—"}
+                </span>
+                <SelectBox
+                  value={mapping[i]}
+                  onChange={(v) => setField(i, v as CsvField)}
+                >
+                  {(Object.keys(CSV_FIELD_LABELS) as CsvField[]).map((f) => (
+                    <option key={f} value={f}>
+                      {CSV_FIELD_LABELS[f]}
+                    </option>
+                  ))}
+                </SelectBox>
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="mb-1 block text-sm font-medium">
+                Weight format
+              </label>
+              <SelectBox
+                value={weightFormat}
+                onChange={(v) => setWeightFormat(v as WeightFormat)}
+              >
+                <option value="auto">
+                  Detect (looks like {detected === "fraction" ? "0–1" : "%"})
+                </option>
+                <option value="percent">Percent (0–100)</option>
+                <option value="fraction">Fraction (0–1)</option>
+              </SelectBox>
+            </div>
+            {!hasCourseColumn && (
+              <div>
+                <label className="mb-1 block text-sm font-medium">
+                  Add to course
+                </label>
+                <SelectBox value={target} onChange={setTarget}>
+                  <option value="new">New course…</option>
+                  {courses.map((c) => (
+                    <option key={c.id} value={c.id}>
+                      {c.name}
+                    </option>
+                  ))}
+                </SelectBox>
+                {target === "new" && (
+                  <Input
+                    className="mt-2"
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                  />
+                )}
+              </div>
+            )}
+          </div>
+          {!mapping.includes("title") && (
+            <p className="text-xs text-rose-600">Map a column to Title.</p>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={onClose}>
+              Cancel
+            </Button>
+            {mapping.includes("title") && (
+              <Button onClick={() => setStep("review")}>Next</Button>
+            )}
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-neutral-500">
+            Step 2 of 2 — review. {result.ok.length} row(s) ready,{" "}
+            {result.errors.length} with errors (skipped).
+          </p>
+          <div className="space-y-1 text-sm">
+            {[...byCourse.entries()].map(([name, rows]) => (
+              <div key={name} className="flex items-center gap-2">
+                <Badge intent={isExisting(name) ? "info" : "success"}>
+                  {isExisting(name) ? "Existing" : "New"}
+                </Badge>
+                <span className="font-medium">{name}</span>
+                <span className="text-neutral-500">
+                  +{rows.length} assignment(s)
+                </span>
+              </div>
+            ))}
+          </div>
+          {result.errors.length > 0 && (
+            <div className="max-h-48 overflow-y-auto rounded-xl border border-rose-200 dark:border-rose-900/60 text-xs">
+              {result.errors.map((e) => (
+                <div
+                  key={e.line}
+                  className="flex gap-3 border-b border-rose-100 dark:border-rose-900/40 px-3 py-1.5 last:border-b-0"
+                >
+                  <span className="shrink-0 font-medium text-rose-700 dark:text-rose-300">
+                    Line {e.line}
+                  </span>
+                  <span>{e.message}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={() => setStep("map")}>
+              Back
+            </Button>
+            {result.ok.length > 0 && (
+              <Button onClick={onImport}>
+                Import {result.ok.length} row(s)
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
+
+const IMPORT_MODES: { mode: ImportMode; label: string; hint: string }[] = [
+  {
+    mode: "merge",
+    label: "Merge by id",
+    hint: "Update matching courses and assignments, add new ones, keep the rest.",
+  },
+  {
+    mode: "append",
+    label: "Append as new",
+    hint: "Add every imported course as a copy; nothing existing is touched.",
+  },
+  {
+    mode: "replace",
+    label: "Replace everything",
+    hint: "Discard current data and use the file as-is.",
+  },
+];
+
+// Add/overwrite/remove counts and one line per change (see diffImport)
+function ImportChangeList({
+  changes,
+  empty,
+}: {
+  changes: ImportChange[];
+  empty: string;
+}) {
+  const count = (k: ImportChange["kind"]) =>
+    changes.filter((c) => c.kind === k).length;
+  const tone: Record<ImportChange["kind"], string> = {
+    add: "text-emerald-700 dark:text-emerald-300",
+    change: "text-sky-700 dark:text-sky-300",
+    remove: "text-rose-700 dark:text-rose-300",
+  };
+  const verb: Record<ImportChange["kind"], string> = {
+    add: "Add",
+    change: "Overwrite",
+    remove: "Remove",
+  };
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        <Badge intent="success">{count("add")} added</Badge>
+        <Badge intent="info">{count("change")} overwritten</Badge>
+        <Badge intent="danger">{count("remove")} removed</Badge>
+      </div>
+      <div className="max-h-64 overflow-y-auto rounded-xl border border-neutral-200 dark:border-neutral-800 text-sm">
+        {changes.length === 0 ? (
+          <div className="p-4 text-center text-neutral-500">{empty}</div>
+        ) : (
+          changes.map((c, i) => (
+            <div
+              key={i}
+              className="flex gap-3 border-b border-neutral-200 dark:border-neutral-800 px-3 py-1.5 last:border-b-0"
+            >
+              <span className={`w-20 shrink-0 font-medium ${tone[c.kind]}`}>
+                {verb[c.kind]}
+              </span>
+              <span className="truncate">{c.label}</span>
+            </div>
+          ))
+        )}
+      </div>
+    </>
+  );
+}
+
+function JsonImportModal({
+  result,
+  onClose,
+  onImported,
+}: {
+  result: { data: ExportData; version: number } | { errors: string[] };
+  onClose: () => void;
+  onImported?: () => void;
+}) {
+  const courses = useCourseStore((s) => s.courses);
+  const terms = useCourseStore((s) => s.terms);
+  const scales = useCourseStore((s) => s.scales);
+  const importData = useCourseStore((s) => s.importData);
+  const [mode, setMode] = useState<ImportMode>("merge");
+
+  const changes = useMemo(() => {
+    if ("errors" in result) return [];
+    const current = { courses, terms, scales };
+    return diffImport(current, applyImport(current, result.data, mode));
+  }, [result, mode, courses, terms, scales]);
+
+  if ("errors" in result)
+    return (
+      <Modal open onClose={onClose} title="Import JSON">
+        <div className="space-y-3">
+          <p className="text-sm text-rose-600">
+            This file can't be imported. Nothing was changed.
           </p>
-        </div>
-        <div className="rounded-2xl border border-neutral-200 dark:border-neutral-800 p-4 bg-white dark:bg-neutral-950">
-          <div className="flex items-center gap-2 mb-2">
-            <Info className="h-4 w-4" />
-            <span className="font-semibold">Current Mark</span>
+          <div className="max-h-72 overflow-y-auto rounded-xl border border-rose-200 dark:border-rose-900/60 text-xs font-mono">
+            {result.errors.slice(0, 100).map((e, i) => (
+              <div
+                key={i}
+                className="border-b border-rose-100 dark:border-rose-900/40 px-3 py-1.5 last:border-b-0"
+              >
+                {e}
+              </div>
+            ))}
           </div>
-          <div className="text-3xl font-semibold">
-            {currentMark.toFixed(1)}%
+          {result.errors.length > 100 && (
+            <p className="text-xs text-neutral-500">
+              …and {result.errors.length - 100} more
+            </p>
+          )}
+          <div className="flex justify-end">
+            <Button onClick={onClose}>Close</Button>
           </div>
-          <p className="mt-1 text-sm text-neutral-500">Counts missing as 0.</p>
         </div>
-      </div>
+      </Modal>
+    );
 
-      <div className="rounded-2xl border border-neutral-200 dark:border-neutral-800 p-4 bg-white dark:bg-neutral-950">
-        <div className="mb-3 flex items-center justify-between">
-          <div className="flex items-center gap-2">
-            <CalendarDays className="h-4 w-4" />
-            <span className="font-semibold">Assignments</span>
+  const removes = changes.filter((c) => c.kind === "remove").length;
+
+  return (
+    <Modal open onClose={onClose} title="Import JSON" wide>
+      <div className="space-y-4">
+        <p className="text-xs text-neutral-500">
+          Schema version {result.version || "0 (legacy)"} ·{" "}
+          {result.data.courses.length} course(s) in file
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          {IMPORT_MODES.map((m) => (
+            <label
+              key={m.mode}
+              className={`cursor-pointer rounded-xl border p-3 text-sm ${
+                mode === m.mode
+                  ? "border-neutral-900 dark:border-white"
+                  : "border-neutral-200 dark:border-neutral-800"
+              }`}
+            >
+              <input
+                type="radio"
+                name="import-mode"
+                className="mr-2"
+                checked={mode === m.mode}
+                onChange={() => setMode(m.mode)}
+              />
+              <span className="font-medium">{m.label}</span>
+              <p className="mt-1 text-xs text-neutral-500">{m.hint}</p>
+            </label>
+          ))}
+        </div>
+        <ImportChangeList
+          changes={changes}
+          empty="No changes — your data already matches this file."
+        />
+        {removes > 0 && (
+          <div className="inline-flex items-center gap-1 rounded-md bg-amber-100 px-2 py-1 text-xs text-amber-700 dark:bg-amber-900/30 dark:text-amber-300">
+            <AlertTriangle className="h-3.5 w-3.5" /> A restore point is saved
+            first, so removed items can be brought back.
           </div>
-          <Button variant="outline" onClick={() => setAddOpen(true)}>
-            <Plus className="h-4 w-4" /> Add Assignment
+        )}
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
           </Button>
+          {changes.length > 0 && (
+            <Button
+              onClick={() => {
+                importData(result.data, mode);
+                onImported?.();
+                onClose();
+                toastUndo(
+                  `Imported ${changes.length} change${
+                    changes.length === 1 ? "" : "s"
+                  }`
+                );
+              }}
+            >
+              Import
+            </Button>
+          )}
         </div>
-        <div className="space-y-3">
-          {course.assignments.length === 0 ? (
-            <div className="rounded-xl border border-dashed border-neutral-300 dark:border-neutral-700 p-8 text-center text-neutral-500">
-              No assignments yet.
+      </div>
+    </Modal>
+  );
+}
+
+const SNAPSHOT_REASONS: Record<SnapshotReason, string> = {
+  daily: "Daily",
+  import: "Import",
+  "delete-course": "Delete",
+  restore: "Restore",
+};
+
+// Browse restore points and see what restoring one would change
+function RestorePointsModal({ onClose }: { onClose: () => void }) {
+  const snapshots = useSnapshotStore((s) => s.snapshots);
+  const courses = useCourseStore((s) => s.courses);
+  const terms = useCourseStore((s) => s.terms);
+  const scales = useCourseStore((s) => s.scales);
+  const restore = useCourseStore((s) => s.restoreSnapshot);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  useEffect(() => {
+    void loadSnapshots();
+  }, []);
+  const selected =
+    snapshots.find((s) => s.id === selectedId) ?? snapshots[0] ?? null;
+  const changes = useMemo(
+    () =>
+      selected ? diffImport({ courses, terms, scales }, selected.data) : [],
+    [selected, courses, terms, scales]
+  );
+
+  return (
+    <Modal open onClose={onClose} title="Restore points" wide>
+      {snapshots.length === 0 ? (
+        <p className="text-sm text-neutral-500">
+          No restore points yet. MarkMate keeps a copy once a day and before
+          every import, course deletion and restore.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <div className="max-h-96 overflow-y-auto rounded-xl border border-neutral-200 text-sm dark:border-neutral-800">
+            {snapshots.map((s) => (
+              <button
+                key={s.id}
+                onClick={() => setSelectedId(s.id)}
+                className={`block w-full border-b border-neutral-200 px-3 py-2 text-left last:border-b-0 dark:border-neutral-800 ${
+                  s.id === selected?.id
+                    ? "bg-neutral-100 dark:bg-neutral-800"
+                    : "hover:bg-neutral-50 dark:hover:bg-neutral-900"
+                }`}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">
+                    {new Date(s.at).toLocaleString()}
+                  </span>
+                  <Badge>{SNAPSHOT_REASONS[s.reason]}</Badge>
+                </div>
+                <div className="text-xs text-neutral-500">
+                  {s.label} · {s.data.courses.length} course(s)
+                </div>
+              </button>
+            ))}
+          </div>
+          {selected && (
+            <div className="space-y-3 md:col-span-2">
+              <p className="text-xs text-neutral-500">
+                Restoring this copy ({selected.label},{" "}
+                {new Date(selected.at).toLocaleString()}) would:
+              </p>
+              <ImportChangeList
+                changes={changes}
+                empty="Nothing — your data matches this restore point."
+              />
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="ghost"
+                  onClick={() => void removeSnapshot(selected.id)}
+                >
+                  <Trash2 className="h-4 w-4" /> Delete
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() =>
+                    downloadFile(
+                      `markmate_restore_point_${toISODate(
+                        new Date(selected.at)
+                      )}.json`,
+                      JSON.stringify(buildExport(selected.data), null, 2),
+                      "application/json"
+                    )
+                  }
+                >
+                  Download
+                </Button>
+                {changes.length > 0 && (
+                  <Button
+                    onClick={() => {
+                      restore(selected);
+                      onClose();
+                      toastUndo("Restored an earlier copy");
+                    }}
+                  >
+                    <ArchiveRestore className="h-4 w-4" /> Restore
+                  </Button>
+                )}
+              </div>
             </div>
-          ) : (
-            course.assignments
-              .slice()
-              .sort((a, b) =>
-                (a.dueDate ?? "9999-12-31").localeCompare(
-                  b.dueDate ?? "9999-12-31"
-                )
-              )
-              .map((a) => (
-                <AssignmentRow
-                  key={a.id}
-                  a={a}
-                  onChange={(patch) => update(course.id, a.id, patch)}
-                  onRemove={() => remove(course.id, a.id)}
-                />
-              ))
           )}
         </div>
+      )}
+    </Modal>
+  );
+}
+
+const MIN_PASSPHRASE = 8;
+
+function EncryptedBackupModal({ onClose }: { onClose: () => void }) {
+  const [passphrase, setPassphrase] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const tooShort = passphrase.length < MIN_PASSPHRASE;
+  const mismatch = confirm !== "" && confirm !== passphrase;
+
+  const save = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const { courses, terms, scales } = useCourseStore.getState();
+      const sealed = await encryptBackup(
+        JSON.stringify(buildExport({ courses, terms, scales })),
+        passphrase
+      );
+      downloadFile(
+        `markmate_backup_${todayISO(null)}.json`,
+        JSON.stringify(sealed, null, 2),
+        "application/json"
+      );
+      onClose();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Modal open onClose={onClose} title="Encrypted backup">
+      <div className="space-y-3 text-sm">
+        <p className="text-neutral-500">
+          Download everything as a file only this passphrase can open. Restore
+          it later with Import JSON. There is no way to recover a forgotten
+          passphrase.
+        </p>
+        <div>
+          <label className="mb-1 block font-medium">Passphrase</label>
+          <Input
+            type="password"
+            autoComplete="new-password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+          />
+        </div>
+        <div>
+          <label className="mb-1 block font-medium">Repeat passphrase</label>
+          <Input
+            type="password"
+            autoComplete="new-password"
+            value={confirm}
+            className={mismatch ? "ring-2 ring-rose-500" : ""}
+            onChange={(e) => setConfirm(e.target.value)}
+          />
+        </div>
+        {passphrase !== "" && tooShort && (
+          <p className="text-xs text-rose-600">
+            Use at least {MIN_PASSPHRASE} characters.
+          </p>
+        )}
+        {error && <p className="text-xs text-rose-600">{error}</p>}
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={save}
+            disabled={busy || tooShort || confirm !== passphrase}
+          >
+            <Lock className="h-4 w-4" /> Download backup
+          </Button>
+        </div>
       </div>
+    </Modal>
+  );
+}
 
-      <AddAssignmentModal
-        open={addOpen}
-        onClose={() => setAddOpen(false)}
-        courseId={course.id}
-      />
-    </div>
+// Asks for the passphrase of an encrypted backup picked in Import JSON
+function UnlockBackupModal({
+  file,
+  onUnlock,
+  onClose,
+}: {
+  file: EncryptedBackup;
+  onUnlock: (json: string) => void;
+  onClose: () => void;
+}) {
+  const [passphrase, setPassphrase] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const unlock = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      onUnlock(await decryptBackup(file, passphrase));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Modal open onClose={onClose} title="Open encrypted backup">
+      <form
+        className="space-y-3 text-sm"
+        onSubmit={(e) => {
+          e.preventDefault();
+          void unlock();
+        }}
+      >
+        <div>
+          <label className="mb-1 block font-medium">Passphrase</label>
+          <Input
+            type="password"
+            autoFocus
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+          />
+        </div>
+        {error && <p className="text-xs text-rose-600">{error}</p>}
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={busy || passphrase === ""}>
+            <KeyRound className="h-4 w-4" /> Unlock
+          </Button>
+        </div>
+      </form>
+    </Modal>
   );
 }
 
-// ==========================
-// Export / Import JSON (optional)
-// ==========================
 function ExportImportBar() {
   const courses = useCourseStore((s) => s.courses);
-  const setCourses = useCourseStore.setState;
+  const terms = useCourseStore((s) => s.terms);
+  const scales = useCourseStore((s) => s.scales);
+  const [jsonResult, setJsonResult] = useState<
+    { data: ExportData; version: number } | { errors: string[] } | null
+  >(null);
+  const [icsEvents, setIcsEvents] = useState<IcsEvent[] | null>(null);
+  const [csvTable, setCsvTable] = useState<string[][] | null>(null);
+  const [locked, setLocked] = useState<EncryptedBackup | null>(null);
+  const [encryptOpen, setEncryptOpen] = useState(false);
+  const [restoreOpen, setRestoreOpen] = useState(false);
 
-  const exportJson = () => {
-    const blob = new Blob([JSON.stringify({ courses }, null, 2)], {
-      type: "application/json",
-    });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = "courses_export.json";
-    a.click();
-    URL.revokeObjectURL(url);
+  const exportJson = () =>
+    downloadFile(
+      "courses_export.json",
+      JSON.stringify(buildExport({ courses, terms, scales }), null, 2),
+      "application/json"
+    );
+
+  const exportIcs = () => {
+    if (!courses.some((c) => c.assignments.some((a) => a.dueDate))) {
+      alert("No assignments with due dates to export.");
+      return;
+    }
+    downloadFile("markmate_deadlines.ics", buildIcs(courses), "text/calendar");
   };
 
-  const importJson = (file: File) => {
+  const exportCsv = () =>
+    downloadFile("markmate_assignments.csv", buildCsv(courses), "text/csv");
+
+  const importCsv = (file: File) => {
     const reader = new FileReader();
     reader.onload = () => {
-      try {
-        const obj = JSON.parse(String(reader.result));
-        if (obj && Array.isArray(obj.courses)) {
-          setCourses({ courses: obj.courses });
-          alert("Imported successfully.");
-        } else {
-          alert("Invalid file format.");
-        }
-      } catch (e) {
-        alert("Could not parse JSON.");
-      }
+      const table = parseCsv(String(reader.result));
+      if (table.length < 2) alert("The CSV needs a header row and data rows.");
+      else setCsvTable(table);
+    };
+    reader.readAsText(file);
+  };
+
+  const importIcs = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const events = parseIcs(String(reader.result));
+      if (events.length === 0) alert("No events found in this calendar.");
+      else setIcsEvents(events);
     };
     reader.readAsText(file);
   };
 
+  const reviewJson = (text: string) => {
+    try {
+      const parsed: unknown = JSON.parse(text);
+      if (isEncryptedBackup(parsed)) {
+        const checked = validateBackup(parsed);
+        if ("errors" in checked) setJsonResult(checked);
+        else setLocked(checked.backup);
+      } else setJsonResult(validateExport(parsed));
+    } catch (e) {
+      setJsonResult({ errors: ["file: could not parse JSON"] });
+    }
+  };
+
+  const importJson = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = () => reviewJson(String(reader.result));
+    reader.readAsText(file);
+  };
+
   return (
-    <div className="mx-auto max-w-6xl px-4 pb-2 flex items-center gap-2 text-sm">
+    <div className="mx-auto max-w-6xl px-4 pb-2 flex flex-wrap items-center gap-2 text-sm">
       <Button variant="outline" onClick={exportJson}>
         Export JSON
       </Button>
@@ -1069,10 +5257,219 @@ function ExportImportBar() {
           onChange={(e) => {
             const f = e.target.files?.[0];
             if (f) importJson(f);
+            e.target.value = "";
           }}
         />
         Import JSON
       </label>
+      <Button variant="outline" onClick={() => setEncryptOpen(true)}>
+        <Lock className="h-4 w-4" /> Encrypted backup
+      </Button>
+      <Button variant="outline" onClick={() => setRestoreOpen(true)}>
+        <History className="h-4 w-4" /> Restore points
+      </Button>
+      <Button variant="outline" onClick={exportIcs}>
+        <CalendarDays className="h-4 w-4" /> Export .ics
+      </Button>
+      <label className="inline-flex items-center gap-2 rounded-xl border border-neutral-300 dark:border-neutral-700 px-3 py-2 cursor-pointer">
+        <input
+          type="file"
+          accept=".ics,text/calendar"
+          className="hidden"
+          onChange={(e) => {
+            const f = e.target.files?.[0];
+            if (f) importIcs(f);
+            e.target.value = "";
+          }}
+        />
+        Import .ics
+      </label>
+      <Button variant="outline" onClick={exportCsv}>
+        Export CSV
+      </Button>
+      <label className="inline-flex items-center gap-2 rounded-xl border border-neutral-300 dark:border-neutral-700 px-3 py-2 cursor-pointer">
+        <input
+          type="file"
+          accept=".csv,.tsv,text/csv,text/tab-separated-values"
+          className="hidden"
+          onChange={(e) => {
+            const f = e.target.files?.[0];
+            if (f) importCsv(f);
+            e.target.value = "";
+          }}
+        />
+        Import CSV
+      </label>
+      {jsonResult && (
+        <JsonImportModal
+          result={jsonResult}
+          onClose={() => setJsonResult(null)}
+        />
+      )}
+      {csvTable && (
+        <CsvImportModal table={csvTable} onClose={() => setCsvTable(null)} />
+      )}
+      {icsEvents && (
+        <IcsImportModal events={icsEvents} onClose={() => setIcsEvents(null)} />
+      )}
+      {locked && (
+        <UnlockBackupModal
+          file={locked}
+          onUnlock={(json) => {
+            setLocked(null);
+            reviewJson(json);
+          }}
+          onClose={() => setLocked(null)}
+        />
+      )}
+      {encryptOpen && (
+        <EncryptedBackupModal onClose={() => setEncryptOpen(false)} />
+      )}
+      {restoreOpen && (
+        <RestorePointsModal onClose={() => setRestoreOpen(false)} />
+      )}
+    </div>
+  );
+}
+
+function UpdateBanner() {
+  const waiting = useUpdateStore((s) => s.waiting);
+  if (!waiting) return null;
+  return (
+    <div className="mx-auto max-w-6xl px-4 pt-3">
+      <div className="flex flex-wrap items-center gap-3 rounded-2xl border border-sky-300 bg-sky-50 px-4 py-3 text-sm text-sky-800 dark:border-sky-800 dark:bg-sky-900/30 dark:text-sky-200">
+        <Download className="h-5 w-5 shrink-0" />
+        <div className="flex-1 min-w-0">
+          <div className="font-semibold">
+            A new version of MarkMate is ready
+          </div>
+          <div className="text-xs">
+            Reload to start using it. Your data stays as it is.
+          </div>
+        </div>
+        <Button variant="outline" onClick={applyUpdate}>
+          Reload
+        </Button>
+        <Button
+          variant="ghost"
+          onClick={() => useUpdateStore.setState({ waiting: null })}
+        >
+          Later
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Saving keeps failing (usually a full disk); edits live in memory only
+function StorageBanner() {
+  const issue = useStorageStatusStore((s) => s.issue);
+  if (!issue) return null;
+  const exportJson = () => {
+    const { courses, terms, scales } = useCourseStore.getState();
+    downloadFile(
+      "courses_export.json",
+      JSON.stringify(buildExport({ courses, terms, scales }), null, 2),
+      "application/json"
+    );
+  };
+  return (
+    <div className="mx-auto max-w-6xl px-4 pt-3">
+      <div className="flex flex-wrap items-center gap-3 rounded-2xl border border-red-300 bg-red-50 px-4 py-3 text-sm text-red-800 dark:border-red-800 dark:bg-red-900/30 dark:text-red-200">
+        <AlertTriangle className="h-5 w-5 shrink-0" />
+        <div className="flex-1 min-w-0">
+          <div className="font-semibold">Recent changes aren't saved</div>
+          <div className="text-xs">
+            {issue.message}.{" "}
+            {issue.quota
+              ? "Export a backup now, then free up space (e.g. delete old terms or other sites' data) and retry."
+              : "Export a backup now so nothing is lost if this tab closes."}
+          </div>
+        </div>
+        <Button variant="outline" onClick={exportJson}>
+          Export backup
+        </Button>
+        <Button variant="outline" onClick={() => void courseStorage.flush()}>
+          Retry
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Shown when saved data couldn't be loaded; the raw copy can be downloaded
+// or pushed through the regular JSON import review. Nothing is saved until a
+// copy is safe and the user has imported it or dismissed this.
+function RecoveryBanner() {
+  const issue = useRecoveryStore((s) => s.issue);
+  const dismiss = useRecoveryStore((s) => s.dismiss);
+  const markDownloaded = useRecoveryStore((s) => s.markDownloaded);
+  const [review, setReview] = useState<
+    { data: ExportData; version: number } | { errors: string[] } | null
+  >(null);
+  if (!issue) return null;
+  const safe = backupIsSafe(issue);
+
+  const openReview = () => {
+    try {
+      const parsed = JSON.parse(issue.raw);
+      setReview(
+        validateExport(
+          isObj(parsed) && "state" in parsed ? parsed.state : parsed
+        )
+      );
+    } catch {
+      setReview({ errors: ["backup: not valid JSON"] });
+    }
+  };
+
+  return (
+    <div className="mx-auto max-w-6xl px-4 pt-3">
+      <div className="flex flex-wrap items-center gap-3 rounded-2xl border border-amber-300 bg-amber-50 px-4 py-3 text-sm text-amber-800 dark:border-amber-800 dark:bg-amber-900/30 dark:text-amber-200">
+        <AlertTriangle className="h-5 w-5 shrink-0" />
+        <div className="flex-1 min-w-0">
+          <div className="font-semibold">
+            Your saved data couldn't be loaded
+          </div>
+          <div className="text-xs">
+            {issue.reason}.{" "}
+            {issue.backup === "saved"
+              ? `A copy was kept in this browser as "${issue.backupKey}".`
+              : issue.backup === "saving"
+              ? "Keeping a copy in this browser…"
+              : issue.downloaded
+              ? "The copy couldn't be kept in this browser; you downloaded it."
+              : "The copy couldn't be kept in this browser. Download it before going on."}{" "}
+            Changes aren't saved until you import the copy or dismiss this.
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => {
+            downloadFile(
+              "markmate_recovered_backup.json",
+              issue.raw,
+              "application/json"
+            );
+            markDownloaded();
+          }}
+        >
+          Download backup
+        </Button>
+        <Button variant="outline" onClick={openReview} disabled={!safe}>
+          Review &amp; import
+        </Button>
+        <Button variant="ghost" onClick={dismiss} disabled={!safe}>
+          Dismiss
+        </Button>
+      </div>
+      {review && (
+        <JsonImportModal
+          result={review}
+          onClose={() => setReview(null)}
+          onImported={dismiss}
+        />
+      )}
     </div>
   );
 }
@@ -1182,16 +5579,93 @@ function WelcomeHome({
 // ==========================
 // Main App
 // ==========================
+// True once saved data has loaded, or failed to. After a failure edits stay
+// in memory until RecoveryBanner is resolved.
+function useHydrated() {
+  const [hydrated, setHydrated] = useState(() =>
+    useCourseStore.persist.hasHydrated()
+  );
+  const failed = useRecoveryStore((s) => s.issue !== null);
+  useEffect(() => {
+    if (!hydrated) whenHydrated(() => setHydrated(true));
+  }, [hydrated]);
+  return hydrated || failed;
+}
+
 export default function App() {
   const [addOpen, setAddOpen] = useState(false);
   const [selectedCourseId, setSelectedCourseId] = useState<string | null>(null);
   const [showWelcome, setShowWelcome] = useState(true);
+  const [view, setView] = useState<HomeView>("courses");
   const courses = useCourseStore((s) => s.courses);
+  const hydrated = useHydrated();
+  useReminderScheduler();
+  useEffect(registerServiceWorker, []);
+  useEffect(startTabSync, []);
+  useEffect(startServerSync, []);
+  useEffect(startDailySnapshots, []);
+
+  // The open course can disappear under us (deleted in another tab, undo)
+  const selectedExists = courses.some((c) => c.id === selectedCourseId);
+  useEffect(() => {
+    if (!hydrated || !selectedCourseId || selectedExists) return;
+    setSelectedCourseId(null);
+    useToastStore
+      .getState()
+      .push({ message: "The course you were viewing was deleted" });
+  }, [hydrated, selectedCourseId, selectedExists]);
+
+  // Clicking a reminder opens its course (via the service worker, or the
+  // ?course= link when no MarkMate window was open)
+  useEffect(() => {
+    const openCourse = (id: string | null) =>
+      whenHydrated(() => {
+        if (id && useCourseStore.getState().courses.some((c) => c.id === id))
+          setSelectedCourseId(id);
+      });
+    const params = new URLSearchParams(window.location.search);
+    if (params.has("course")) {
+      openCourse(params.get("course"));
+      window.history.replaceState(null, "", window.location.pathname);
+    }
+    const onMessage = (e: MessageEvent) => {
+      if (e.data?.type === "open-course") openCourse(e.data.courseId);
+    };
+    navigator.serviceWorker?.addEventListener("message", onMessage);
+    return () =>
+      navigator.serviceWorker?.removeEventListener("message", onMessage);
+  }, []);
 
   useEffect(() => {
     if (courses.length > 0) setShowWelcome(false);
   }, [courses.length]);
 
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes. Text fields keep
+  // their native undo.
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const el = e.target as HTMLElement | null;
+      if (
+        el &&
+        (el.isContentEditable ||
+          ["INPUT", "TEXTAREA", "SELECT"].includes(el.tagName))
+      )
+        return;
+      const key = e.key.toLowerCase();
+      const { undo, redo } = useCourseStore.getState();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
+
   const allCompleted = useMemo(
     () =>
       courses.length > 0 &&
@@ -1251,10 +5725,19 @@ export default function App() {
           setSelectedCourseId(null);
           setShowWelcome(true);
         }}
+        view={selectedCourseId || showWelcome ? undefined : view}
+        onView={(v) => {
+          setView(v);
+          setSelectedCourseId(null);
+          setShowWelcome(false);
+        }}
       />
+      <UpdateBanner />
+      <StorageBanner />
+      <RecoveryBanner />
       <ExportImportBar />
 
-      {selectedCourseId ? (
+      {!hydrated ? null : selectedCourseId && selectedExists ? (
         <CourseDetail
           courseId={selectedCourseId}
           onBack={() => setSelectedCourseId(null)}
@@ -1264,6 +5747,10 @@ export default function App() {
           onAddCourse={() => setAddOpen(true)}
           onSkip={() => setShowWelcome(false)}
         />
+      ) : view === "agenda" ? (
+        <AgendaView onOpenCourse={(id) => setSelectedCourseId(id)} />
+      ) : view === "calendar" ? (
+        <CalendarView onOpenCourse={(id) => setSelectedCourseId(id)} />
       ) : (
         <CourseGrid
           onOpenCourse={(id) => setSelectedCourseId(id)}
@@ -1280,6 +5767,7 @@ export default function App() {
           missing were zero.
         </div>
       </footer>
+      <Toaster />
     </div>
   );
 }
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import {
+  decryptBackup,
+  encryptBackup,
+  isEncryptedBackup,
+  validateBackup,
+} from "./backup";
+
+describe("encrypted backups", () => {
+  const sealing = encryptBackup('{"courses":[]}', "correct horse");
+
+  it("opens with the right passphrase only", async () => {
+    const file = await sealing;
+    expect(await decryptBackup(file, "correct horse")).toBe('{"courses":[]}');
+    await expect(decryptBackup(file, "wrong horse")).rejects.toThrow(
+      /Wrong passphrase/
+    );
+  });
+
+  it("accepts its own files", async () => {
+    const file = JSON.parse(JSON.stringify(await sealing));
+    expect(isEncryptedBackup(file)).toBe(true);
+    expect(validateBackup(file)).toEqual({ backup: await sealing });
+  });
+
+  it("refuses iteration counts out of range", async () => {
+    const file = await sealing;
+    for (const iterations of [1000, 310_000.5, 3_100_001, 1e300, "310000"]) {
+      const res = validateBackup({ ...file, kdf: { ...file.kdf, iterations } });
+      expect("errors" in res && res.errors[0]).toMatch(/^kdf\.iterations:/);
+    }
+    expect(
+      validateBackup({ ...file, kdf: { ...file.kdf, iterations: 3_100_000 } })
+    ).toHaveProperty("backup");
+  });
+
+  it("names what's wrong with a damaged file", async () => {
+    const file = await sealing;
+    expect(
+      validateBackup({
+        ...file,
+        kdf: { ...file.kdf, salt: "not base64!" },
+        cipher: { name: "AES-CBC", iv: "AAAA" },
+        data: 42,
+      })
+    ).toEqual({
+      errors: [
+        "kdf.salt: expected base64",
+        'cipher.name: expected "AES-GCM"',
+        "cipher.iv: expected 12 bytes",
+        "file.data: expected text",
+      ],
+    });
+    expect(validateBackup({ ...file, version: 2 })).toEqual({
+      errors: ["version: made by a newer MarkMate"],
+    });
+  });
+
+  it("won't decrypt a file that fails the check", async () => {
+    const file = await sealing;
+    await expect(
+      decryptBackup({ ...file, kdf: { ...file.kdf, iterations: 1e9 } }, "x")
+    ).rejects.toThrow(/Not a usable backup \(kdf\.iterations/);
+  });
+});
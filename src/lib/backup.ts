@@ -0,0 +1,162 @@
+import { isObj, makeReader, type Obj } from "./exportData";
+
+// ==========================
+// Encrypted backups
+// ==========================
+// A JSON export sealed with AES-GCM under a key derived from a passphrase
+// (PBKDF2/SHA-256). The file is JSON too, so it goes through Import JSON.
+const BACKUP_FORMAT = "markmate-encrypted-backup";
+const PBKDF2_ITERATIONS = 310_000;
+// Files asking for more would tie up the page deriving the key
+const MAX_PBKDF2_ITERATIONS = PBKDF2_ITERATIONS * 10;
+
+export type EncryptedBackup = {
+  format: typeof BACKUP_FORMAT;
+  version: 1;
+  kdf: { name: "PBKDF2"; hash: "SHA-256"; iterations: number; salt: string };
+  cipher: { name: "AES-GCM"; iv: string };
+  data: string; // base64 ciphertext of the export JSON
+};
+
+function toBase64(bytes: Uint8Array) {
+  let s = "";
+  for (let i = 0; i < bytes.length; i += 0x8000)
+    s += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(s);
+}
+
+const fromBase64 = (s: string) =>
+  Uint8Array.from(atob(s), (c) => c.charCodeAt(0));
+
+export async function backupKey(
+  passphrase: string,
+  salt: BufferSource,
+  iterations: number
+) {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+export async function encryptBackup(
+  json: string,
+  passphrase: string
+): Promise<EncryptedBackup> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await backupKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const sealed = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(json)
+  );
+  return {
+    format: BACKUP_FORMAT,
+    version: 1,
+    kdf: {
+      name: "PBKDF2",
+      hash: "SHA-256",
+      iterations: PBKDF2_ITERATIONS,
+      salt: toBase64(salt),
+    },
+    cipher: { name: "AES-GCM", iv: toBase64(iv) },
+    data: toBase64(new Uint8Array(sealed)),
+  };
+}
+
+// Marks a file as an encrypted backup; validateBackup checks the rest
+export const isEncryptedBackup = (v: unknown): v is Obj =>
+  isObj(v) && v.format === BACKUP_FORMAT;
+
+const BASE64 =
+  /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+
+// Full structural check of a backup file; returns it typed, or errors
+export function validateBackup(
+  raw: Obj
+): { backup: EncryptedBackup } | { errors: string[] } {
+  if (raw.version !== 1)
+    return {
+      errors: [
+        typeof raw.version === "number" && raw.version > 1
+          ? "version: made by a newer MarkMate"
+          : "version: expected 1",
+      ],
+    };
+  const errors: string[] = [];
+  const r = makeReader(errors);
+  const bytes = (o: Obj, key: string, path: string, length?: number) => {
+    const v = r.str(o, key, path);
+    if (!BASE64.test(v)) r.fail(`${path}.${key}`, "expected base64");
+    else if (length != null && atob(v).length !== length)
+      r.fail(`${path}.${key}`, `expected ${length} bytes`);
+    return v;
+  };
+
+  const kdf = r.obj(raw.kdf, "kdf");
+  if (kdf.name !== "PBKDF2" || kdf.hash !== "SHA-256")
+    r.fail("kdf", "expected PBKDF2 with SHA-256");
+  const iterations = r.num(kdf, "iterations", "kdf") ?? 0;
+  if (
+    !Number.isSafeInteger(iterations) ||
+    iterations < PBKDF2_ITERATIONS ||
+    iterations > MAX_PBKDF2_ITERATIONS
+  )
+    r.fail(
+      "kdf.iterations",
+      `expected a whole number from ${PBKDF2_ITERATIONS} to ${MAX_PBKDF2_ITERATIONS}`
+    );
+  const salt = bytes(kdf, "salt", "kdf", 16);
+  const cipher = r.obj(raw.cipher, "cipher");
+  if (cipher.name !== "AES-GCM") r.fail("cipher.name", 'expected "AES-GCM"');
+  const iv = bytes(cipher, "iv", "cipher", 12);
+  const data = bytes(raw, "data", "file");
+
+  return errors.length
+    ? { errors }
+    : {
+        backup: {
+          format: BACKUP_FORMAT,
+          version: 1,
+          kdf: { name: "PBKDF2", hash: "SHA-256", iterations, salt },
+          cipher: { name: "AES-GCM", iv },
+          data,
+        },
+      };
+}
+
+// The export JSON inside; throws on a wrong passphrase or a damaged file
+export async function decryptBackup(
+  file: EncryptedBackup,
+  passphrase: string
+): Promise<string> {
+  const checked = validateBackup(file);
+  if ("errors" in checked)
+    throw new Error(`Not a usable backup (${checked.errors[0]})`);
+  try {
+    const key = await backupKey(
+      passphrase,
+      fromBase64(file.kdf.salt),
+      file.kdf.iterations
+    );
+    const plain = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64(file.cipher.iv) },
+      key,
+      fromBase64(file.data)
+    );
+    return new TextDecoder().decode(plain);
+  } catch {
+    throw new Error("Wrong passphrase, or the file is damaged");
+  }
+}
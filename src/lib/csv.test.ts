@@ -0,0 +1,163 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildCsv,
+  guessCsvField,
+  mapCsvRows,
+  parseCsv,
+  parseStatus,
+  resolveCsvCategories,
+} from "./csv";
+import {
+  normalizeWeightToPercent,
+  percentWeight,
+  weighAssignments,
+} from "./grades";
+import type { Course } from "./types";
+
+describe("parseStatus", () => {
+  it("reads the app's own status values", () => {
+    expect(parseStatus("not_started")).toBe("not_started");
+    expect(parseStatus("Not started")).toBe("not_started");
+    expect(parseStatus("in_progress")).toBe("in_progress");
+    expect(parseStatus("In progress")).toBe("in_progress");
+    expect(parseStatus("submitted")).toBe("submitted");
+    expect(parseStatus("graded")).toBe("graded");
+  });
+
+  it("doesn't flip negated LMS phrases", () => {
+    expect(parseStatus("Not submitted")).toBe("not_started");
+    expect(parseStatus("Not graded")).toBe("not_started");
+    expect(parseStatus("Missing")).toBe("not_started");
+    expect(parseStatus("To do")).toBe("not_started");
+  });
+
+  it("maps other LMS wording", () => {
+    expect(parseStatus("Turned in")).toBe("submitted");
+    expect(parseStatus("Submitted late")).toBe("submitted");
+    expect(parseStatus("Returned")).toBe("graded");
+    expect(parseStatus("Working on it")).toBe("in_progress");
+    expect(parseStatus("Overdue")).toBe("not_started");
+    expect(parseStatus("???")).toBeNull();
+  });
+});
+
+describe("mapCsvRows", () => {
+  it("keeps small percent weights as percents", () => {
+    const { ok } = mapCsvRows(
+      [
+        ["Quiz 1", "1%"],
+        ["Quiz 2", "0.5"],
+        ["Final", "40"],
+      ],
+      ["title", "weight"],
+      "percent"
+    );
+    expect(
+      ok.map((r) => normalizeWeightToPercent(r.assignment.weight))
+    ).toEqual([1, 0.5, 40]);
+  });
+
+  it("reads the status of the app's own export", () => {
+    const { ok } = mapCsvRows(
+      [["Essay", "not_started"]],
+      ["title", "status"],
+      "auto"
+    );
+    expect(ok[0].assignment.status).toBe("not_started");
+  });
+});
+
+describe("buildCsv", () => {
+  it("imports back into the same weights", () => {
+    const course: Course = {
+      id: "c1",
+      name: "Statics",
+      categories: [
+        {
+          id: "k1",
+          name: "Quizzes",
+          weight: percentWeight(30),
+          dropLowest: 0,
+          bestOf: null,
+          weighting: "equal",
+        },
+      ],
+      assignments: [
+        {
+          id: "a1",
+          title: "Quiz 1",
+          dueDate: "2026-09-10",
+          weight: 0,
+          status: "graded",
+          grade: 80,
+          pointsEarned: 8,
+          pointsPossible: 10,
+          categoryId: "k1",
+        },
+        {
+          id: "a2",
+          title: "Quiz 2",
+          dueDate: null,
+          weight: 0,
+          status: "graded",
+          grade: 90,
+          pointsEarned: 18,
+          pointsPossible: 20,
+          categoryId: "k1",
+        },
+        {
+          id: "a3",
+          title: "Final",
+          dueDate: null,
+          weight: percentWeight(0.5),
+          status: "not_started",
+          grade: null,
+        },
+      ],
+    };
+    const [header, ...rows] = parseCsv(buildCsv([course]));
+    const { ok, errors } = mapCsvRows(rows, header.map(guessCsvField), "auto");
+    expect(errors).toEqual([]);
+    const { list, categories } = resolveCsvCategories([], ok);
+    expect(categories).toHaveLength(1);
+    expect(normalizeWeightToPercent(categories[0].weight)).toBeCloseTo(30);
+
+    const imported: Course = {
+      id: "c2",
+      name: "Statics",
+      categories,
+      assignments: list.map((a, i) => ({ ...a, id: `b${i}` })),
+    };
+    const shares = (c: Course) =>
+      c.assignments.map((a) => weighAssignments(c).get(a.id)?.weight);
+    expect(shares(imported)).toEqual(shares(course));
+    expect(list.map((a) => a.title)).toEqual(["Quiz 1", "Quiz 2", "Final"]);
+  });
+
+  it("links rows to existing categories by name", () => {
+    const existing = {
+      id: "k1",
+      name: "Labs",
+      weight: percentWeight(20),
+      dropLowest: 1,
+      bestOf: null,
+      weighting: "equal" as const,
+    };
+    const { ok } = mapCsvRows(
+      [
+        ["Lab 1", "labs", "25%"],
+        ["Essay", "Papers", "40%"],
+        ["Essay 2", "papers", ""],
+      ],
+      ["title", "category", "categoryWeight"],
+      "auto"
+    );
+    const { list, categories } = resolveCsvCategories([existing], ok);
+    expect(categories.map((k) => k.name)).toEqual(["Papers"]);
+    expect(list.map((a) => a.categoryId)).toEqual([
+      "k1",
+      categories[0].id,
+      categories[0].id,
+    ]);
+  });
+});
@@ -0,0 +1,340 @@
+import { parseLooseDate } from "./dates";
+import { STATUSES } from "./exportData";
+import {
+  clamp,
+  gradePercent,
+  normalizeWeightToPercent,
+  parseScore,
+  percentWeight,
+  type ScoreFields,
+  scorePatch,
+  uid,
+} from "./grades";
+import type { Assignment, AssignmentStatus, Category, Course } from "./types";
+
+// ==========================
+// CSV
+// ==========================
+export type CsvField =
+  | "ignore"
+  | "course"
+  | "title"
+  | "dueDate"
+  | "weight"
+  | "status"
+  | "grade"
+  | "earned"
+  | "possible"
+  | "category"
+  | "categoryWeight";
+
+export const CSV_FIELD_LABELS: Record<CsvField, string> = {
+  ignore: "Ignore",
+  course: "Course",
+  title: "Title",
+  dueDate: "Due date",
+  weight: "Weight",
+  status: "Status",
+  grade: "Grade (% or pts)",
+  earned: "Points earned",
+  possible: "Points possible",
+  category: "Category",
+  categoryWeight: "Category weight",
+};
+
+// Header patterns per field, tried in this order (first match wins)
+const CSV_HEADER_GUESSES: [CsvField, RegExp][] = [
+  ["categoryWeight", /categor.*weight|group weight/i],
+  ["category", /categor|assignment group/i],
+  ["possible", /out of|possible|max(imum)?( points)?|range|total points/i],
+  ["earned", /points? earned|earned|raw score/i],
+  ["weight", /weight|worth|value/i],
+  ["dueDate", /due|deadline|date/i],
+  ["status", /status|state/i],
+  ["title", /title|assignment|grade item/i],
+  ["grade", /grade|score|mark|percent|result/i],
+  ["course", /course|class|subject|module/i],
+  ["title", /item|name|task/i],
+];
+
+export function guessCsvField(header: string): CsvField {
+  return CSV_HEADER_GUESSES.find(([, re]) => re.test(header))?.[0] ?? "ignore";
+}
+
+function csvEscape(v: string | number | null): string {
+  const str = v == null ? "" : String(v);
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+// Weights carry a "%" so a column of small ones isn't read back as fractions
+const csvPercent = (raw: number) =>
+  `${+normalizeWeightToPercent(raw).toFixed(4)}%`;
+
+// One row per assignment with its own weight and its category, so the file
+// imports back into the same structure (drop rules aren't carried)
+export function buildCsv(courses: Course[]): string {
+  const rows: (string | number | null)[][] = [
+    [
+      "Course",
+      "Title",
+      "Due Date",
+      "Weight",
+      "Status",
+      "Grade (%)",
+      "Points Earned",
+      "Points Possible",
+      "Category",
+      "Category Weight",
+    ],
+  ];
+  for (const c of courses) {
+    for (const a of c.assignments) {
+      const pct = gradePercent(a);
+      const cat = c.categories?.find((k) => k.id === a.categoryId);
+      rows.push([
+        c.name,
+        a.title,
+        a.dueDate,
+        csvPercent(a.weight),
+        a.status,
+        pct == null ? null : +pct.toFixed(4),
+        a.pointsEarned ?? null,
+        a.pointsPossible ?? null,
+        cat?.name ?? null,
+        cat ? csvPercent(cat.weight) : null,
+      ]);
+    }
+  }
+  return rows.map((r) => r.map(csvEscape).join(",")).join("\r\n") + "\r\n";
+}
+
+// RFC 4180 parser; the delimiter (comma, semicolon or tab) is sniffed from
+// the header line so European and tab-separated exports also work.
+export function parseCsv(text: string): string[][] {
+  const src = text.replace(/^\uFEFF/, "");
+  const firstLine = src.split(/\r?\n/, 1)[0] ?? "";
+  const delim = [",", ";", "\t"].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === delim) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else field += ch;
+  }
+  if (field !== "" || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+export type WeightFormat = "auto" | "fraction" | "percent";
+
+// Column-level version of normalizeWeightToPercent: a column whose values
+// all fit in 0..1 is read as fractions, anything else (or a "%") as percent.
+export function detectWeightFormat(raw: string[]): "fraction" | "percent" {
+  const cells = raw.map((r) => r.trim()).filter(Boolean);
+  if (cells.some((c) => c.includes("%"))) return "percent";
+  const nums = cells.map((c) => Number(c)).filter((n) => isFinite(n));
+  return nums.length > 0 && nums.every((n) => n <= 1) ? "fraction" : "percent";
+}
+
+export function parseStatus(raw: string): AssignmentStatus | null {
+  const s = raw.trim().toLowerCase();
+  if (!s) return null;
+  // The app's own values ("not_started", "In progress") as written by buildCsv
+  const exact = STATUSES.find((st) => st === s.replace(/[\s-]+/g, "_"));
+  if (exact) return exact;
+  // Negations before the words they negate: "Not submitted", "Ungraded"
+  if (/\bnot\b|missing|\bto ?do\b|\bun(?:submitted|graded|marked)\b/.test(s))
+    return "not_started";
+  if (/graded|marked|returned/.test(s)) return "graded";
+  if (/submit|turned in|handed in|complete|done|finished/.test(s))
+    return "submitted";
+  if (/progress|started|working/.test(s)) return "in_progress";
+  if (/open|pending|overdue|late/.test(s)) return "not_started";
+  return null;
+}
+
+// "8,50" -> "8.50" for locales that export decimal commas
+export function normalizeDecimal(raw: string): string {
+  return raw.replace(/(\d),(\d{1,2})(?!\d)/g, "$1.$2");
+}
+
+// Last number in the cell, e.g. "0.00–50.00" -> 50, "12.5 %" -> 12.5
+function lastNumber(raw: string): number | null {
+  const all = normalizeDecimal(raw)
+    .replace(/,(?=\d{3}\b)/g, "")
+    .match(/-?\d+(?:\.\d+)?/g);
+  return all ? Number(all[all.length - 1]) : null;
+}
+
+// Empty or a dash placeholder ("-", "–") as LMS exports use for "no value"
+const isBlankCell = (v: string) => !v.trim() || /^[-–—]$/.test(v.trim());
+
+export type CsvImportRow = {
+  line: number; // 1-based line in the file
+  course: string | null;
+  category: { name: string; weight: number | null } | null;
+  assignment: Omit<Assignment, "id">;
+};
+
+// Turn mapped CSV rows into assignments, collecting row-level errors
+export function mapCsvRows(
+  rows: string[][],
+  mapping: CsvField[],
+  weightFormat: WeightFormat
+): { ok: CsvImportRow[]; errors: { line: number; message: string }[] } {
+  const col = (f: CsvField) => mapping.indexOf(f);
+  const cell = (r: string[], f: CsvField) =>
+    col(f) < 0 ? "" : (r[col(f)] ?? "").trim();
+  const format =
+    weightFormat === "auto"
+      ? detectWeightFormat(rows.map((r) => cell(r, "weight")))
+      : weightFormat;
+  const categoryFormat = detectWeightFormat(
+    rows.map((r) => cell(r, "categoryWeight"))
+  );
+  const readWeight = (raw: string, format: "fraction" | "percent") => {
+    const n = lastNumber(raw);
+    if (n == null || n < 0) return null;
+    return percentWeight(
+      clamp(format === "fraction" && !raw.includes("%") ? n * 100 : n)
+    );
+  };
+
+  const ok: CsvImportRow[] = [];
+  const errors: { line: number; message: string }[] = [];
+  rows.forEach((r, i) => {
+    const line = i + 2; // header is line 1
+    const problems: string[] = [];
+
+    const title = cell(r, "title");
+    if (!title) problems.push("missing title");
+
+    const dueRaw = cell(r, "dueDate");
+    const dueDate = isBlankCell(dueRaw) ? null : parseLooseDate(dueRaw);
+    if (!isBlankCell(dueRaw) && dueDate == null)
+      problems.push(`unrecognized date "${dueRaw}"`);
+
+    const weightRaw = cell(r, "weight");
+    let weight = 0;
+    if (!isBlankCell(weightRaw)) {
+      const w = readWeight(weightRaw, format);
+      if (w == null) problems.push(`bad weight "${weightRaw}"`);
+      else weight = w;
+    }
+
+    const categoryName = cell(r, "category");
+    const categoryWeightRaw = cell(r, "categoryWeight");
+    let categoryWeight: number | null = null;
+    if (!isBlankCell(categoryWeightRaw)) {
+      categoryWeight = readWeight(categoryWeightRaw, categoryFormat);
+      if (categoryWeight == null)
+        problems.push(`bad category weight "${categoryWeightRaw}"`);
+    }
+
+    // Points when an earned column is mapped, or a bare score sits next to
+    // an "out of" column (typical LMS layout); otherwise a percent/"a / b".
+    let score: ScoreFields = scorePatch(null);
+    const earnedRaw = isBlankCell(cell(r, "earned"))
+      ? cell(r, "grade")
+      : cell(r, "earned");
+    const possibleRaw = cell(r, "possible");
+    const gradeRaw = cell(r, "grade");
+    const pointsLayout =
+      !isBlankCell(possibleRaw) &&
+      !isBlankCell(earnedRaw) &&
+      !/[%/]/.test(earnedRaw);
+    if (pointsLayout) {
+      const earned = lastNumber(earnedRaw);
+      const possible = lastNumber(possibleRaw);
+      if (earned == null || possible == null || !(possible > 0))
+        problems.push(`bad points "${earnedRaw}" / "${possibleRaw}"`);
+      else score = scorePatch({ kind: "points", earned, possible, bonus: 0 });
+    } else if (!isBlankCell(gradeRaw)) {
+      const parsed = parseScore(
+        normalizeDecimal(gradeRaw).replace(/\s*%$/, "")
+      );
+      if (parsed) score = scorePatch(parsed);
+      else problems.push(`bad grade "${gradeRaw}"`);
+    }
+
+    const statusRaw = cell(r, "status");
+    const hasGrade = score.grade != null || score.pointsEarned != null;
+    const parsedStatus = parseStatus(statusRaw);
+    const status =
+      hasGrade && (parsedStatus == null || parsedStatus === "submitted")
+        ? "graded"
+        : parsedStatus ?? "not_started";
+    if (statusRaw && parseStatus(statusRaw) == null)
+      problems.push(`unknown status "${statusRaw}"`);
+
+    if (problems.length) {
+      errors.push({ line, message: problems.join("; ") });
+      return;
+    }
+    ok.push({
+      line,
+      course: cell(r, "course") || null,
+      category: isBlankCell(categoryName)
+        ? null
+        : { name: categoryName, weight: categoryWeight },
+      assignment: { title, dueDate, weight, status, ...score },
+    });
+  });
+  return { ok, errors };
+}
+
+// Assignments for one course's rows, linked to its categories by name.
+// Names it doesn't have yet become new (equal split) categories, weighted by
+// the first Category Weight given for them.
+export function resolveCsvCategories(
+  existing: Category[],
+  rows: CsvImportRow[]
+): { list: Omit<Assignment, "id">[]; categories: Category[] } {
+  const categories: Category[] = [];
+  const find = (name: string) =>
+    [...existing, ...categories].find(
+      (k) => k.name.trim().toLowerCase() === name.toLowerCase()
+    );
+  const list = rows.map((r) => {
+    if (!r.category) return r.assignment;
+    let cat = find(r.category.name);
+    if (!cat) {
+      cat = {
+        id: uid(),
+        name: r.category.name,
+        weight: 0,
+        dropLowest: 0,
+        bestOf: null,
+        weighting: "equal",
+      };
+      categories.push(cat);
+    }
+    if (categories.includes(cat) && !cat.weight && r.category.weight)
+      cat.weight = r.category.weight;
+    return { ...r.assignment, categoryId: cat.id };
+  });
+  return { list, categories };
+}
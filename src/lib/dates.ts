@@ -0,0 +1,199 @@
+import type { Assignment, DisplayStatus, ReminderOffset } from "./types";
+
+// ==========================
+// Dates & due times
+// ==========================
+// When work is due: a wall-clock time in an IANA time zone (null = this
+// device's zone), applied to every due date.
+export type DueSettings = {
+  timeZone: string | null;
+  dueTime: string; // "HH:MM"
+};
+
+export const DEFAULT_DUE_SETTINGS: DueSettings = {
+  timeZone: null,
+  dueTime: "23:59",
+};
+
+// Wall-clock parts of instant `t` in `timeZone`
+function zonedParts(t: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(t));
+  const get = (type: string) =>
+    Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+// Epoch ms of `date` ("YYYY-MM-DD") at `time` ("HH:MM") in `timeZone`
+export function zonedTime(date: string, time: string, timeZone: string | null) {
+  if (!timeZone) return new Date(`${date}T${time}:00`).getTime();
+  const [y, mo, d] = date.split("-").map(Number);
+  const [h, mi] = time.split(":").map(Number);
+  const wall = Date.UTC(y, mo - 1, d, h, mi);
+  // Shift by the zone's offset, then re-check it in case that crossed DST
+  const offsetAt = (t: number) => {
+    const p = zonedParts(t, timeZone);
+    const asUtc = Date.UTC(
+      p.year,
+      p.month - 1,
+      p.day,
+      p.hour,
+      p.minute,
+      p.second
+    );
+    return asUtc - Math.floor(t / 1000) * 1000;
+  };
+  const first = wall - offsetAt(wall);
+  return wall - offsetAt(first);
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Today's date in `timeZone` (null = this device's zone)
+export function todayISO(timeZone: string | null, now = Date.now()): string {
+  if (!timeZone) return toISODate(new Date(now));
+  const p = zonedParts(now, timeZone);
+  return isoFromParts(p.year, p.month, p.day)!;
+}
+
+function dueAt(a: Assignment, due: DueSettings): number | null {
+  return a.dueDate ? zonedTime(a.dueDate, due.dueTime, due.timeZone) : null;
+}
+
+// Handed in or marked; nothing left to do
+export const isDone = (a: Assignment) =>
+  a.status === "submitted" || a.status === "graded";
+
+export function isOverdue(a: Assignment, due: DueSettings, now = Date.now()) {
+  const at = dueAt(a, due);
+  return !isDone(a) && at != null && at < now;
+}
+
+export function displayStatus(
+  a: Assignment,
+  due: DueSettings,
+  now = Date.now()
+): DisplayStatus {
+  return isOverdue(a, due, now) ? "overdue" : a.status;
+}
+
+export function nextDue(
+  assignments: Assignment[],
+  due: DueSettings,
+  now = Date.now()
+): Assignment | null {
+  const upcoming = assignments
+    .filter((a) => !isDone(a) && (dueAt(a, due) ?? -Infinity) >= now)
+    .sort((a, b) => (a.dueDate! < b.dueDate! ? -1 : 1));
+  return upcoming[0] ?? null;
+}
+
+export function addDaysISO(iso: string, days: number): string {
+  const d = new Date(iso + "T00:00:00");
+  d.setDate(d.getDate() + days);
+  return toISODate(d);
+}
+
+export function toISODate(d: Date): string {
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${d.getFullYear()}-${mm}-${dd}`;
+}
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+// ISO, US "9/30/2026" or "Sep 30[, 2026]" into "YYYY-MM-DD"
+export function parseLooseDate(
+  raw: string,
+  fallbackYear = new Date().getFullYear()
+) {
+  const s = raw.trim();
+  if (!s) return null;
+  let m = s.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (m) return isoFromParts(+m[1], +m[2], +m[3]);
+  m = s.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})/);
+  if (m) {
+    const y = +m[3] < 100 ? 2000 + +m[3] : +m[3];
+    return isoFromParts(y, +m[1], +m[2]);
+  }
+  m = s.match(
+    /\b([a-z]{3})[a-z]*\.?\s+(\d{1,2})(?!\d)(?:st|nd|rd|th)?(?:,?\s+(\d{4}))?/i
+  );
+  if (m && MONTHS.includes(m[1].toLowerCase()))
+    return isoFromParts(
+      m[3] ? +m[3] : fallbackYear,
+      MONTHS.indexOf(m[1].toLowerCase()) + 1,
+      +m[2]
+    );
+  m = s.match(/\b(\d{1,2})\s+([a-z]{3})[a-z]*\.?(?:,?\s+(\d{4}))?/i);
+  if (m && MONTHS.includes(m[2].toLowerCase()))
+    return isoFromParts(
+      m[3] ? +m[3] : fallbackYear,
+      MONTHS.indexOf(m[2].toLowerCase()) + 1,
+      +m[1]
+    );
+  return null;
+}
+
+export function isoFromParts(y: number, mo: number, d: number): string | null {
+  const date = new Date(y, mo - 1, d);
+  if (date.getMonth() !== mo - 1 || date.getDate() !== d) return null;
+  return toISODate(date);
+}
+
+export const REMINDER_OFFSETS: {
+  id: ReminderOffset;
+  label: string;
+  days: number;
+}[] = [
+  { id: "3d", label: "3 days before", days: 3 },
+  { id: "1d", label: "1 day before", days: 1 },
+  { id: "morning", label: "Morning of", days: 0 },
+];
+
+// "Sep 30" in the browser's locale
+export const shortDate = (iso: string) =>
+  new Date(iso + "T00:00:00").toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+  });
+
+// Sunday on or before `iso`
+export function startOfWeekISO(iso: string): string {
+  return addDaysISO(iso, -new Date(iso + "T00:00:00").getDay());
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import {
+  EXPORT_SCHEMA_VERSION,
+  applyImport,
+  buildExport,
+  validateExport,
+  type ExportData,
+} from "./exportData";
+import type { Course } from "./types";
+
+const course = (id: string, name: string, titles: string[]): Course => ({
+  id,
+  name,
+  assignments: titles.map((title, i) => ({
+    id: `${id}-a${i}`,
+    title,
+    dueDate: null,
+    weight: 10,
+    status: "not_started",
+    grade: null,
+  })),
+});
+
+const data = (...courses: Course[]): ExportData => ({
+  courses,
+  terms: [],
+  scales: [],
+});
+
+describe("validateExport", () => {
+  it("accepts the app's own export", () => {
+    const current = data(course("c1", "Statics", ["Quiz 1", "Lab"]));
+    const res = validateExport(
+      JSON.parse(JSON.stringify(buildExport(current)))
+    );
+    expect(res).toMatchObject({ version: EXPORT_SCHEMA_VERSION });
+    if ("errors" in res) throw new Error(res.errors.join("\n"));
+    expect(res.data.courses[0].assignments.map((a) => a.title)).toEqual([
+      "Quiz 1",
+      "Lab",
+    ]);
+  });
+
+  it("upgrades statuses from version 1 files", () => {
+    const res = validateExport({
+      schemaVersion: 1,
+      courses: [
+        {
+          id: "c1",
+          name: "Statics",
+          assignments: [
+            {
+              id: "a1",
+              title: "Quiz",
+              weight: 10,
+              status: "completed",
+              grade: 90,
+            },
+            {
+              id: "a2",
+              title: "Lab",
+              weight: 10,
+              status: "completed",
+              grade: null,
+            },
+          ],
+        },
+      ],
+    });
+    if ("errors" in res) throw new Error(res.errors.join("\n"));
+    expect(res.data.courses[0].assignments.map((a) => a.status)).toEqual([
+      "graded",
+      "submitted",
+    ]);
+  });
+
+  it("names every problem with its path", () => {
+    const res = validateExport({
+      schemaVersion: EXPORT_SCHEMA_VERSION,
+      courses: [
+        {
+          id: "c1",
+          name: "Statics",
+          termId: "t9",
+          assignments: [
+            { id: "a1", title: "Quiz", weight: -1, status: "done", grade: 120 },
+            { id: "a1", title: "Lab", weight: 5, status: "graded", grade: 80 },
+          ],
+        },
+      ],
+    });
+    expect("errors" in res && res.errors).toEqual(
+      expect.arrayContaining([
+        expect.stringMatching(/^courses\[0\]\.assignments\[0\]\.status:/),
+        expect.stringMatching(/^courses\[0\]\.assignments\[0\]\.weight:/),
+        expect.stringMatching(/^courses\[0\]\.assignments\[0\]\.grade:/),
+        expect.stringMatching(/^courses\[0\]\.assignments\[1\]\.id: duplicate/),
+        expect.stringMatching(/^courses\[0\]\.termId:/),
+      ])
+    );
+  });
+
+  it("rejects files from a newer version", () => {
+    expect(
+      validateExport({ schemaVersion: EXPORT_SCHEMA_VERSION + 1, courses: [] })
+    ).toEqual({ errors: [expect.stringMatching(/^schemaVersion:/)] });
+  });
+});
+
+describe("applyImport", () => {
+  const current = data(course("c1", "Statics", ["Quiz 1", "Lab"]));
+  const incoming = data(
+    { ...course("c1", "Statics II", ["Quiz 1 (redo)"]) },
+    course("c2", "Dynamics", ["Exam"])
+  );
+
+  it("replaces everything", () => {
+    expect(applyImport(current, incoming, "replace")).toBe(incoming);
+  });
+
+  it("merges courses and assignments by id", () => {
+    const out = applyImport(current, incoming, "merge");
+    expect(out.courses.map((c) => c.name)).toEqual(["Statics II", "Dynamics"]);
+    expect(out.courses[0].assignments.map((a) => a.title)).toEqual([
+      "Quiz 1 (redo)",
+      "Lab",
+    ]);
+  });
+
+  it("appends copies with fresh ids", () => {
+    const out = applyImport(current, incoming, "append");
+    expect(out.courses.map((c) => c.name)).toEqual([
+      "Statics",
+      "Statics II",
+      "Dynamics",
+    ]);
+    const ids = out.courses.flatMap((c) => [
+      c.id,
+      ...c.assignments.map((a) => a.id),
+    ]);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
@@ -0,0 +1,456 @@
+import { REMINDER_OFFSETS } from "./dates";
+import { uid } from "./grades";
+import type {
+  Assignment,
+  AssignmentEvent,
+  AssignmentStatus,
+  Category,
+  Course,
+  GradingScale,
+  Scenario,
+  Term,
+  WhatIfScores,
+} from "./types";
+
+// ==========================
+// JSON export schema & validation
+// ==========================
+export const EXPORT_SCHEMA_VERSION = 2;
+
+export type ExportData = {
+  courses: Course[];
+  terms: Term[];
+  scales: GradingScale[];
+};
+
+export type ImportMode = "replace" | "merge" | "append";
+
+export const STATUSES: AssignmentStatus[] = [
+  "not_started",
+  "in_progress",
+  "submitted",
+  "graded",
+];
+
+// Statuses written before schema/persist version 2, when "completed" and a
+// stored "overdue" existed. Unknown values give null.
+export function upgradeStatus(
+  raw: unknown,
+  hasGrade: boolean
+): AssignmentStatus | null {
+  if (raw === "completed") return hasGrade ? "graded" : "submitted";
+  if (raw === "overdue") return "not_started";
+  return STATUSES.find((st) => st === raw) ?? null;
+}
+
+export function buildExport(data: ExportData) {
+  return {
+    app: "markmate",
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...data,
+  };
+}
+
+export type Obj = Record<string, unknown>;
+export const isObj = (v: unknown): v is Obj =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+// Small field readers: each pushes "path: problem" and returns a safe value
+export function makeReader(errors: string[]) {
+  const fail = (path: string, msg: string) => errors.push(`${path}: ${msg}`);
+  return {
+    str(o: Obj, key: string, path: string, optional = false): string {
+      const v = o[key];
+      if (typeof v === "string") return v;
+      if (!(optional && v == null)) fail(`${path}.${key}`, "expected text");
+      return "";
+    },
+    num(o: Obj, key: string, path: string, optional = false): number | null {
+      const v = o[key];
+      if (typeof v === "number" && isFinite(v)) return v;
+      if (!(optional && v == null)) fail(`${path}.${key}`, "expected a number");
+      return null;
+    },
+    date(o: Obj, key: string, path: string): string | null {
+      const v = o[key];
+      if (v == null || v === "") return null;
+      if (typeof v === "string" && /^\d{4}-\d{2}-\d{2}$/.test(v)) return v;
+      fail(`${path}.${key}`, 'expected a "YYYY-MM-DD" date or null');
+      return null;
+    },
+    obj(v: unknown, path: string): Obj {
+      if (isObj(v)) return v;
+      fail(path, "expected an object");
+      return {};
+    },
+    list(o: Obj, key: string, path: string, optional = false): unknown[] {
+      const v = o[key];
+      if (Array.isArray(v)) return v;
+      if (!(optional && v == null)) fail(`${path}.${key}`, "expected a list");
+      return [];
+    },
+    fail,
+  };
+}
+
+// Full structural check of an export file; returns clean data or errors
+export function validateExport(
+  raw: unknown
+): { data: ExportData; version: number } | { errors: string[] } {
+  const errors: string[] = [];
+  if (!isObj(raw)) return { errors: ["file: expected a JSON object"] };
+  const version = raw.schemaVersion == null ? 0 : Number(raw.schemaVersion);
+  if (!Number.isInteger(version) || version < 0)
+    return { errors: ["schemaVersion: expected a whole number"] };
+  if (version > EXPORT_SCHEMA_VERSION)
+    return {
+      errors: [
+        `schemaVersion: file uses version ${version}, this app reads up to ${EXPORT_SCHEMA_VERSION}`,
+      ],
+    };
+
+  const r = makeReader(errors);
+  const reminders = (o: Obj, path: string) =>
+    o.reminders == null
+      ? null
+      : r.list(o, "reminders", path).flatMap((v, i) => {
+          const off = REMINDER_OFFSETS.find((x) => x.id === v);
+          if (!off)
+            r.fail(
+              `${path}.reminders[${i}]`,
+              `expected one of ${REMINDER_OFFSETS.map((x) => x.id).join(", ")}`
+            );
+          return off ? [off.id] : [];
+        });
+
+  const readStatus = (o: Obj) =>
+    version < 2
+      ? upgradeStatus(o.status, o.grade != null || o.pointsEarned != null)
+      : STATUSES.find((st) => st === o.status);
+
+  const seen = new Set<string>();
+  const id = (o: Obj, path: string) => {
+    const v = r.str(o, "id", path);
+    if (v && seen.has(v)) r.fail(`${path}.id`, `duplicate id "${v}"`);
+    seen.add(v);
+    return v;
+  };
+
+  const courses = r.list(raw, "courses", "file").map((c, ci): Course => {
+    const path = `courses[${ci}]`;
+    if (!isObj(c)) {
+      r.fail(path, "expected an object");
+      return { id: "", name: "", assignments: [] };
+    }
+    const categories = r
+      .list(c, "categories", path, true)
+      .map((k, ki): Category => {
+        const kp = `${path}.categories[${ki}]`;
+        const o = r.obj(k, kp);
+        const weighting = o.weighting === "points" ? "points" : "equal";
+        if (o.weighting != null && o.weighting !== weighting)
+          r.fail(`${kp}.weighting`, 'expected "equal" or "points"');
+        return {
+          id: id(o, kp),
+          name: r.str(o, "name", kp),
+          weight: r.num(o, "weight", kp) ?? 0,
+          dropLowest: r.num(o, "dropLowest", kp, true) ?? 0,
+          bestOf: r.num(o, "bestOf", kp, true),
+          weighting,
+        };
+      });
+    const assignments = r
+      .list(c, "assignments", path)
+      .map((a, ai): Assignment => {
+        const ap = `${path}.assignments[${ai}]`;
+        const o = r.obj(a, ap);
+        const status = readStatus(o);
+        if (!status)
+          r.fail(`${ap}.status`, `expected one of ${STATUSES.join(", ")}`);
+        const weight = r.num(o, "weight", ap);
+        if (weight != null && weight < 0) r.fail(`${ap}.weight`, "must be ≥ 0");
+        const grade = r.num(o, "grade", ap, true);
+        if (grade != null && (grade < 0 || grade > 100))
+          r.fail(`${ap}.grade`, "must be 0–100 or null");
+        const possible = r.num(o, "pointsPossible", ap, true);
+        if (possible != null && possible <= 0)
+          r.fail(`${ap}.pointsPossible`, "must be > 0 or null");
+        const categoryId =
+          o.categoryId == null ? null : r.str(o, "categoryId", ap);
+        if (categoryId && !categories.some((k) => k.id === categoryId))
+          r.fail(
+            `${ap}.categoryId`,
+            `no category "${categoryId}" in this course`
+          );
+        const history = r
+          .list(o, "history", ap, true)
+          .map((e, ei): AssignmentEvent => {
+            const ep = `${ap}.history[${ei}]`;
+            const eo = r.obj(e, ep);
+            const at = r.str(eo, "at", ep);
+            if (at && isNaN(Date.parse(at)))
+              r.fail(`${ep}.at`, "expected an ISO timestamp");
+            const st = readStatus(eo);
+            if (!st)
+              r.fail(`${ep}.status`, `expected one of ${STATUSES.join(", ")}`);
+            return {
+              at,
+              status: st ?? "not_started",
+              grade: r.num(eo, "grade", ep, true),
+              pointsEarned: r.num(eo, "pointsEarned", ep, true),
+              pointsPossible: r.num(eo, "pointsPossible", ep, true),
+              bonusPoints: r.num(eo, "bonusPoints", ep, true),
+            };
+          });
+        return {
+          id: id(o, ap),
+          title: r.str(o, "title", ap),
+          dueDate: r.date(o, "dueDate", ap),
+          weight: weight ?? 0,
+          status: status ?? "not_started",
+          grade,
+          pointsEarned: r.num(o, "pointsEarned", ap, true),
+          pointsPossible: possible,
+          bonusPoints: r.num(o, "bonusPoints", ap, true),
+          categoryId,
+          history,
+          reminders: reminders(o, ap),
+        };
+      });
+    const target = r.num(c, "target", path, true);
+    if (target != null && (target < 0 || target > 100))
+      r.fail(`${path}.target`, "must be 0–100 or null");
+    // Entries for assignments no longer in the course are dropped
+    const scenarios = r
+      .list(c, "scenarios", path, true)
+      .map((sc, si): Scenario => {
+        const sp = `${path}.scenarios[${si}]`;
+        const o = r.obj(sc, sp);
+        const scores: WhatIfScores = {};
+        for (const [aId, v] of Object.entries(
+          r.obj(o.scores, `${sp}.scores`)
+        )) {
+          if (!assignments.some((a) => a.id === aId)) continue;
+          const vp = `${sp}.scores.${aId}`;
+          const vo = r.obj(v, vp);
+          scores[aId] = {
+            grade: r.num(vo, "grade", vp, true),
+            pointsEarned: r.num(vo, "pointsEarned", vp, true),
+            pointsPossible: r.num(vo, "pointsPossible", vp, true),
+            bonusPoints: r.num(vo, "bonusPoints", vp, true),
+          };
+        }
+        return { id: id(o, sp), name: r.str(o, "name", sp), scores };
+      });
+    return {
+      id: id(c, path),
+      name: r.str(c, "name", path),
+      assignments,
+      categories,
+      target,
+      scaleId: c.scaleId == null ? null : r.str(c, "scaleId", path),
+      credits: r.num(c, "credits", path, true),
+      termId: c.termId == null ? null : r.str(c, "termId", path),
+      scenarios,
+      reminders: reminders(c, path),
+    };
+  });
+
+  const terms = r.list(raw, "terms", "file", true).map((t, ti): Term => {
+    const tp = `terms[${ti}]`;
+    const o = r.obj(t, tp);
+    return {
+      id: id(o, tp),
+      name: r.str(o, "name", tp),
+      archived: !!o.archived,
+    };
+  });
+
+  const scales = r
+    .list(raw, "scales", "file", true)
+    .map((sc, si): GradingScale => {
+      const sp = `scales[${si}]`;
+      const o = r.obj(sc, sp);
+      return {
+        id: id(o, sp),
+        name: r.str(o, "name", sp),
+        bands: r.list(o, "bands", sp).map((b, bi) => {
+          const bp = `${sp}.bands[${bi}]`;
+          const bo = r.obj(b, bp);
+          return {
+            letter: r.str(bo, "letter", bp),
+            min: r.num(bo, "min", bp) ?? 0,
+            points: r.num(bo, "points", bp, true),
+          };
+        }),
+      };
+    });
+
+  courses.forEach((c, ci) => {
+    if (c.termId && !terms.some((t) => t.id === c.termId))
+      r.fail(`courses[${ci}].termId`, `no term "${c.termId}" in this file`);
+  });
+
+  return errors.length
+    ? { errors }
+    : { data: { courses, terms, scales }, version };
+}
+
+// Fresh ids for a course and everything inside it (append-as-new imports)
+export function cloneCourseWithNewIds(course: Course): Course {
+  const catIds = new Map(
+    (course.categories ?? []).map((k) => [k.id, uid()] as const)
+  );
+  const aIds = new Map(course.assignments.map((a) => [a.id, uid()] as const));
+  return {
+    ...course,
+    id: uid(),
+    categories: (course.categories ?? []).map((k) => ({
+      ...k,
+      id: catIds.get(k.id)!,
+    })),
+    assignments: course.assignments.map((a) => ({
+      ...a,
+      id: aIds.get(a.id)!,
+      categoryId: a.categoryId ? catIds.get(a.categoryId) ?? null : null,
+    })),
+    scenarios: (course.scenarios ?? []).map((sc) => ({
+      ...sc,
+      id: uid(),
+      scores: Object.fromEntries(
+        Object.entries(sc.scores)
+          .filter(([aId]) => aIds.has(aId))
+          .map(([aId, v]) => [aIds.get(aId)!, v])
+      ),
+    })),
+  };
+}
+
+const byId = <T extends { id: string }>(current: T[], incoming: T[]) => [
+  ...current.map((x) => incoming.find((y) => y.id === x.id) ?? x),
+  ...incoming.filter((y) => !current.some((x) => x.id === y.id)),
+];
+
+// The store contents after importing `incoming` with the chosen mode
+export function applyImport(
+  current: ExportData,
+  incoming: ExportData,
+  mode: ImportMode
+): ExportData {
+  if (mode === "replace") return incoming;
+
+  // Terms and scales are reference data: always merged by id
+  const terms = byId(current.terms, incoming.terms);
+  const scales = byId(current.scales, incoming.scales);
+
+  if (mode === "append")
+    return {
+      courses: [
+        ...current.courses,
+        ...incoming.courses.map(cloneCourseWithNewIds),
+      ],
+      terms,
+      scales,
+    };
+
+  const courses = current.courses.map((c) => {
+    const inc = incoming.courses.find((x) => x.id === c.id);
+    if (!inc) return c;
+    return {
+      ...c,
+      ...inc,
+      categories: byId(c.categories ?? [], inc.categories ?? []),
+      assignments: byId(c.assignments, inc.assignments),
+    };
+  });
+  return {
+    courses: [
+      ...courses,
+      ...incoming.courses.filter(
+        (x) => !current.courses.some((c) => c.id === x.id)
+      ),
+    ],
+    terms,
+    scales,
+  };
+}
+
+// Key-order independent JSON that treats missing, null and [] alike, so
+// validated (fully spelled-out) records compare equal to stored ones
+export function canonical(v: unknown): string {
+  if (Array.isArray(v)) return `[${v.map(canonical).join(",")}]`;
+  if (isObj(v))
+    return `{${Object.keys(v)
+      .filter((k) => {
+        const x = v[k];
+        return x != null && !(Array.isArray(x) && x.length === 0);
+      })
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${canonical(v[k])}`)
+      .join(",")}}`;
+  return JSON.stringify(v);
+}
+
+export type ImportChange = {
+  kind: "add" | "change" | "remove";
+  label: string;
+};
+
+// Human-readable diff of what an import would add, change or overwrite
+export function diffImport(
+  before: ExportData,
+  after: ExportData
+): ImportChange[] {
+  const out: ImportChange[] = [];
+  const same = (a: unknown, b: unknown) => canonical(a) === canonical(b);
+
+  for (const c of after.courses) {
+    const old = before.courses.find((x) => x.id === c.id);
+    if (!old) {
+      out.push({
+        kind: "add",
+        label: `Course "${c.name}" (${c.assignments.length} assignments)`,
+      });
+      continue;
+    }
+    if (same(old, c)) continue;
+    const { assignments: oa, ...oRest } = old;
+    const { assignments: na, ...nRest } = c;
+    if (!same(oRest, nRest))
+      out.push({ kind: "change", label: `Course settings of "${c.name}"` });
+    for (const a of na) {
+      const prev = oa.find((x) => x.id === a.id);
+      if (!prev) out.push({ kind: "add", label: `"${a.title}" in ${c.name}` });
+      else if (!same(prev, a))
+        out.push({ kind: "change", label: `"${a.title}" in ${c.name}` });
+    }
+    for (const a of oa)
+      if (!na.some((x) => x.id === a.id))
+        out.push({ kind: "remove", label: `"${a.title}" in ${old.name}` });
+  }
+  for (const c of before.courses)
+    if (!after.courses.some((x) => x.id === c.id))
+      out.push({
+        kind: "remove",
+        label: `Course "${c.name}" (${c.assignments.length} assignments)`,
+      });
+
+  for (const t of after.terms) {
+    const old = before.terms.find((x) => x.id === t.id);
+    if (!old) out.push({ kind: "add", label: `Term "${t.name}"` });
+    else if (!same(old, t))
+      out.push({ kind: "change", label: `Term "${t.name}"` });
+  }
+  for (const t of before.terms)
+    if (!after.terms.some((x) => x.id === t.id))
+      out.push({ kind: "remove", label: `Term "${t.name}"` });
+  for (const sc of after.scales)
+    if (!before.scales.some((x) => x.id === sc.id))
+      out.push({ kind: "add", label: `Grading scale "${sc.name}"` });
+  for (const sc of before.scales)
+    if (!after.scales.some((x) => x.id === sc.id))
+      out.push({ kind: "remove", label: `Grading scale "${sc.name}"` });
+
+  return out;
+}
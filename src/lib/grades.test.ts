@@ -0,0 +1,192 @@
+import { describe, expect, it } from "vitest";
+import {
+  calcProjection,
+  calcTarget,
+  normalizeWeightToPercent,
+  percentWeight,
+  weighAssignments,
+} from "./grades";
+import type { Assignment, Category, Course } from "./types";
+
+const item = (
+  id: string,
+  weight: number,
+  grade: number | null,
+  extra: Partial<Assignment> = {}
+): Assignment => ({
+  id,
+  title: id,
+  dueDate: null,
+  weight,
+  status: grade == null ? "not_started" : "graded",
+  grade,
+  ...extra,
+});
+
+const course = (
+  assignments: Assignment[],
+  extra: Partial<Course> = {}
+): Course => ({ id: "c1", name: "Statics", assignments, ...extra });
+
+describe("percentWeight", () => {
+  it("keeps imported percents as percents", () => {
+    for (const pct of [0, 0.5, 1, 2, 10, 40, 100])
+      expect(normalizeWeightToPercent(percentWeight(pct))).toBeCloseTo(pct);
+  });
+});
+
+describe("weighAssignments", () => {
+  const quizzes = (rule: Partial<Category>, grades: (number | null)[]) =>
+    course(
+      grades.map((g, i) => item(`q${i + 1}`, 0, g, { categoryId: "quiz" })),
+      {
+        categories: [
+          {
+            id: "quiz",
+            name: "Quizzes",
+            weight: 40,
+            dropLowest: 0,
+            bestOf: null,
+            weighting: "equal",
+            ...rule,
+          },
+        ],
+      }
+    );
+  const weights = (c: Course) =>
+    c.assignments.map((a) => {
+      const w = weighAssignments(c).get(a.id)!;
+      return w.dropped ? "dropped" : Number(w.weight.toFixed(2));
+    });
+
+  it("drops nothing while ungraded items could still be lowest", () => {
+    expect(weights(quizzes({ dropLowest: 1 }, [60, 90, null, null]))).toEqual([
+      10, 10, 10, 10,
+    ]);
+    expect(weights(quizzes({ dropLowest: 1 }, [60, 90, 80, null]))).toEqual([
+      10, 10, 10, 10,
+    ]);
+  });
+
+  it("drops the lowest once every item is graded", () => {
+    expect(weights(quizzes({ dropLowest: 1 }, [60, 90, 80, 70]))).toEqual([
+      "dropped",
+      13.33,
+      13.33,
+      13.33,
+    ]);
+  });
+
+  it("keeps the best N as soon as more than N are graded", () => {
+    expect(weights(quizzes({ bestOf: 2 }, [60, 90, null, null]))).toEqual([
+      10, 10, 10, 10,
+    ]);
+    expect(weights(quizzes({ bestOf: 2 }, [60, 90, 80, null]))).toEqual([
+      "dropped",
+      13.33,
+      13.33,
+      13.33,
+    ]);
+  });
+
+  it("splits a points category by points possible only", () => {
+    const c = quizzes({ weighting: "points" }, [null, null, 87, null]);
+    c.assignments[0] = {
+      ...c.assignments[0],
+      status: "graded",
+      pointsEarned: 43,
+      pointsPossible: 50,
+    };
+    c.assignments[1] = {
+      ...c.assignments[1],
+      status: "graded",
+      pointsEarned: 18,
+      pointsPossible: 20,
+    };
+    c.assignments[3] = { ...c.assignments[3], weight: 25 };
+    expect(weights(c)).toEqual([28.57, 11.43, 0, 0]);
+  });
+});
+
+describe("calcTarget", () => {
+  it("spreads what's missing over the ungraded weight", () => {
+    const t = calcTarget(
+      course([
+        item("mid", 40, 70),
+        item("lab", 20, null),
+        item("fin", 40, null),
+      ]),
+      80
+    );
+    expect(t.outcome).toBe("reachable");
+    expect(t.earned).toBeCloseTo(28);
+    expect(t.remainingWeight).toBeCloseTo(60);
+    expect(t.neededAverage).toBeCloseTo(((80 - 28) / 60) * 100);
+    expect(t.perAssignment.map((p) => p.assignment.id)).toEqual(["lab", "fin"]);
+    expect(t.perAssignment[1].contributes).toBeCloseTo(
+      (40 * t.neededAverage!) / 100
+    );
+  });
+
+  it("reports targets out of reach", () => {
+    const t = calcTarget(
+      course([item("mid", 60, 50), item("fin", 40, null)]),
+      90
+    );
+    expect(t.outcome).toBe("unreachable");
+    expect(t.maxPossible).toBeCloseTo(70);
+    expect(t.perAssignment[0].needed).toBe(100);
+  });
+
+  it("reports targets already locked in", () => {
+    const t = calcTarget(
+      course([item("mid", 60, 100), item("fin", 40, null)]),
+      50
+    );
+    expect(t.outcome).toBe("locked_in");
+    expect(t.perAssignment[0].needed).toBe(0);
+  });
+
+  it("has no needed average once nothing is left", () => {
+    const t = calcTarget(course([item("mid", 100, 70)]), 80);
+    expect(t.neededAverage).toBeNull();
+    expect(t.perAssignment).toEqual([]);
+  });
+});
+
+describe("calcProjection", () => {
+  it("is null before any weighted grade", () => {
+    expect(calcProjection(course([item("fin", 100, null)]))).toBeNull();
+    expect(calcProjection(course([item("quiz", 0, 90)]))).toBeNull();
+  });
+
+  it("fills the open weight at the weighted average", () => {
+    const p = calcProjection(
+      course([item("mid", 30, 80), item("lab", 10, 60), item("fin", 60, null)])
+    )!;
+    expect(p.average).toBeCloseTo(75);
+    expect(p.min).toBeCloseTo(30);
+    expect(p.max).toBeCloseTo(90);
+    expect(p.expected).toBeCloseTo(30 + 60 * 0.75);
+    expect(p.worst).toBeLessThan(p.expected);
+    expect(p.best).toBeGreaterThan(p.expected);
+    expect(p.confidence).toBe("medium");
+  });
+
+  it("blends the prior spread with the observed one", () => {
+    const p = calcProjection(
+      course([item("a", 25, 70), item("b", 25, 70), item("c", 50, null)])
+    )!;
+    // Both grades agree, so only the prior's share is left: sqrt(2·10²/4)
+    expect(p.spread).toBeCloseTo(Math.sqrt(50));
+    expect(p.settledShare).toBeCloseTo(0.5);
+  });
+
+  it("keeps the range inside 0–100 per assignment", () => {
+    const p = calcProjection(
+      course([item("a", 50, 100), item("b", 50, null)])
+    )!;
+    expect(p.best).toBeCloseTo(100);
+    expect(p.confidence).toBe("medium");
+  });
+});
@@ -0,0 +1,404 @@
+import { isDone, toISODate } from "./dates";
+import type {
+  Assignment,
+  AssignmentEvent,
+  Course,
+  WhatIfScores,
+} from "./types";
+
+// ==========================
+// Grades & weights
+// ==========================
+export const uid = () =>
+  Math.random().toString(36).slice(2) + Date.now().toString(36);
+export const clamp = (n: number, min = 0, max = 100) =>
+  Math.max(min, Math.min(max, n));
+
+// Normalize any weight input: if 0..1 treat as fraction, else percent
+export function normalizeWeightToPercent(raw: number): number {
+  if (!isFinite(raw)) return 0;
+  if (raw <= 1) return clamp(raw * 100);
+  return clamp(raw);
+}
+
+// Raw weight for a value known to be a percent ("1%" in an import), so that
+// normalizeWeightToPercent reads it back as that percent: 1 -> 0.01
+export const percentWeight = (percent: number) =>
+  percent <= 1 ? percent / 100 : percent;
+
+// Effective percent for an assignment: earned/possible (+ bonus) when points
+// are recorded, else the plain 0–100 grade. Bonus may push it above 100.
+export function gradePercent(a: Assignment): number | null {
+  if (
+    a.pointsPossible != null &&
+    a.pointsPossible > 0 &&
+    a.pointsEarned != null
+  )
+    return ((a.pointsEarned + (a.bonusPoints ?? 0)) / a.pointsPossible) * 100;
+  return a.grade;
+}
+
+export type ParsedScore =
+  | { kind: "percent"; grade: number }
+  | { kind: "points"; earned: number; possible: number; bonus: number };
+
+// Accepts "87", "87%", "43.5 / 50" or "43.5 / 50 + 2" (bonus points)
+export function parseScore(raw: string): ParsedScore | null {
+  const num = "(\\d+(?:\\.\\d*)?|\\.\\d+)";
+  const pct = raw.match(new RegExp(`^\\s*${num}\\s*%?\\s*$`));
+  if (pct) {
+    const grade = Number(pct[1]);
+    return grade <= 100 ? { kind: "percent", grade } : null;
+  }
+  const pts = raw.match(
+    new RegExp(`^\\s*${num}\\s*/\\s*${num}\\s*(?:\\+\\s*${num}\\s*)?$`)
+  );
+  if (pts) {
+    const possible = Number(pts[2]);
+    if (!(possible > 0)) return null;
+    return {
+      kind: "points",
+      earned: Number(pts[1]),
+      possible,
+      bonus: pts[3] ? Number(pts[3]) : 0,
+    };
+  }
+  return null;
+}
+
+export function formatScore(a: Partial<Assignment>): string {
+  if (a.pointsPossible != null && a.pointsEarned != null)
+    return `${a.pointsEarned} / ${a.pointsPossible}${
+      a.bonusPoints ? ` + ${a.bonusPoints}` : ""
+    }`;
+  return a.grade == null ? "" : String(a.grade);
+}
+
+export type ScoreFields = Pick<
+  Assignment,
+  "grade" | "pointsEarned" | "pointsPossible" | "bonusPoints"
+>;
+
+// Store patch for a parsed score; null clears every grade field
+export function scorePatch(score: ParsedScore | null): ScoreFields {
+  if (score == null)
+    return {
+      grade: null,
+      pointsEarned: null,
+      pointsPossible: null,
+      bonusPoints: null,
+    };
+  if (score.kind === "percent")
+    return {
+      grade: score.grade,
+      pointsEarned: null,
+      pointsPossible: null,
+      bonusPoints: null,
+    };
+  return {
+    grade: null,
+    pointsEarned: score.earned,
+    pointsPossible: score.possible,
+    bonusPoints: score.bonus || null,
+  };
+}
+
+// Combine a score field and a separate bonus field (already validated)
+export function scoreFromInputs(score: string, bonus: string): ScoreFields {
+  const parsed = score.trim() === "" ? null : parseScore(score);
+  if (parsed?.kind === "points" && bonus !== "")
+    return scorePatch({ ...parsed, bonus: Number(bonus) });
+  return scorePatch(parsed);
+}
+
+export type WeightedAssignment = {
+  weight: number; // effective share of the course, 0..100
+  dropped: boolean; // excluded by a drop-lowest / best-N rule
+};
+
+// Resolve every assignment to its effective course weight. Uncategorized
+// assignments keep their own weight; categorized ones split the category
+// weight after drop-lowest / best-N rules are applied to graded work.
+// Ungraded items could still end up lowest, so grades are only dropped once
+// more items are graded than the category keeps.
+export function weighAssignments(
+  course: Course
+): Map<string, WeightedAssignment> {
+  const out = new Map<string, WeightedAssignment>();
+  const categories = course.categories ?? [];
+  const members = new Map<string, Assignment[]>();
+
+  for (const a of course.assignments) {
+    const cat = a.categoryId
+      ? categories.find((c) => c.id === a.categoryId)
+      : undefined;
+    if (!cat) {
+      out.set(a.id, {
+        weight: normalizeWeightToPercent(a.weight),
+        dropped: false,
+      });
+      continue;
+    }
+    members.set(cat.id, [...(members.get(cat.id) ?? []), a]);
+  }
+
+  for (const cat of categories) {
+    const list = members.get(cat.id) ?? [];
+    if (list.length === 0) continue;
+
+    const n = list.length;
+    const keep = Math.max(
+      1,
+      Math.min(cat.bestOf ?? n, n - Math.max(0, cat.dropLowest))
+    );
+    const graded = list
+      .filter((a) => gradePercent(a) != null)
+      .sort((a, b) => gradePercent(a)! - gradePercent(b)!);
+    const dropCount = Math.max(0, graded.length - keep);
+    const dropped = new Set(graded.slice(0, dropCount).map((a) => a.id));
+
+    // "points": each item counts by what its points score is out of; items
+    // without one (ungraded, or graded as a plain percent) get no share
+    const share = (a: Assignment) =>
+      cat.weighting === "points" ? Math.max(0, a.pointsPossible ?? 0) : 1;
+    const kept = list.filter((a) => !dropped.has(a.id));
+    const totalShare = kept.reduce((s, a) => s + share(a), 0);
+    const catWeight = normalizeWeightToPercent(cat.weight);
+
+    for (const a of list) {
+      const isDropped = dropped.has(a.id);
+      out.set(a.id, {
+        weight:
+          isDropped || totalShare === 0
+            ? 0
+            : (catWeight * share(a)) / totalShare,
+        dropped: isDropped,
+      });
+    }
+  }
+
+  return out;
+}
+
+export function calcMetrics(course: Course) {
+  const weights = weighAssignments(course);
+  const w = (a: Assignment) => weights.get(a.id)?.weight ?? 0;
+
+  const weightsCompleted = course.assignments
+    .filter(isDone)
+    .reduce((s, a) => s + w(a), 0);
+  // Submitted work awaiting a mark doesn't pull the average down
+  const marked = course.assignments.filter(
+    (a) => isDone(a) && gradePercent(a) != null
+  );
+  const weightsMarked = marked.reduce((s, a) => s + w(a), 0);
+
+  const weightedEarned = course.assignments.reduce((s, a) => {
+    const g = gradePercent(a) ?? 0; // missing counts as 0 for CurrentMark
+    return s + (w(a) * g) / 100; // contributes 0..w
+  }, 0);
+
+  const gradeSoFar =
+    weightsMarked > 0
+      ? (marked.reduce((s, a) => s + (w(a) * gradePercent(a)!) / 100, 0) /
+          weightsMarked) *
+        100
+      : null;
+
+  const currentMark = weightedEarned; // already 0..100
+  const completedWeighted = weightsCompleted; // 0..100
+  const totalWeights = course.assignments.reduce((s, a) => s + w(a), 0);
+
+  return {
+    completedWeighted,
+    gradeSoFar,
+    currentMark,
+    totalWeights,
+    weights,
+  };
+}
+
+// The course as if each hypothetical score were a completed result. Real
+// grades always win, so stale scenario entries never override them.
+export function applyWhatIf(course: Course, scores: WhatIfScores): Course {
+  return {
+    ...course,
+    assignments: course.assignments.map((a) =>
+      scores[a.id] && gradePercent(a) == null
+        ? { ...a, ...scores[a.id], status: "graded" }
+        : a
+    ),
+  };
+}
+
+export type TargetOutcome = "reachable" | "unreachable" | "locked_in";
+
+// What average is needed on everything still ungraded to finish at `target`.
+// Earned marks come from calcMetrics (currentMark); the rest is open weight.
+export function calcTarget(course: Course, target: number) {
+  const { currentMark, totalWeights, weights } = calcMetrics(course);
+  const w = (a: Assignment) => weights.get(a.id)?.weight ?? 0;
+  const remaining = course.assignments.filter((a) => gradePercent(a) == null);
+  const remainingWeight = remaining.reduce((s, a) => s + w(a), 0);
+
+  const earned = currentMark; // 0..100, graded work only
+  const maxPossible = earned + remainingWeight;
+  const outcome: TargetOutcome =
+    earned >= target
+      ? "locked_in"
+      : maxPossible < target
+      ? "unreachable"
+      : "reachable";
+
+  const neededAverage =
+    remainingWeight > 0 ? ((target - earned) / remainingWeight) * 100 : null;
+
+  const perAssignment = remaining.map((a) => {
+    const weight = w(a);
+    const needed = neededAverage == null ? 0 : clamp(neededAverage);
+    return {
+      assignment: a,
+      weight,
+      needed,
+      contributes: (weight * needed) / 100,
+    };
+  });
+
+  return {
+    outcome,
+    earned,
+    remainingWeight,
+    maxPossible,
+    neededAverage,
+    perAssignment,
+    totalWeights,
+  };
+}
+
+export type ProjectionConfidence = "low" | "medium" | "high";
+
+// Spread (in percentage points) assumed before much work is graded; blended
+// with the observed spread, carrying the weight of this many assignments.
+const PRIOR_SPREAD = 10;
+const PRIOR_COUNT = 2;
+
+// Final-mark estimate from past performance: ungraded weight is filled at
+// the weighted average so far (expected) or one spread above/below it (best,
+// worst). `min`/`max` are the hard bounds (all zeros / all full marks).
+// Confidence grows with the share of weight already settled.
+export function calcProjection(course: Course) {
+  const { currentMark, totalWeights, weights } = calcMetrics(course);
+  const w = (a: Assignment) => weights.get(a.id)?.weight ?? 0;
+  const graded = course.assignments.filter(
+    (a) => gradePercent(a) != null && w(a) > 0
+  );
+  const gradedWeight = graded.reduce((s, a) => s + w(a), 0);
+  if (gradedWeight === 0) return null;
+
+  const mean =
+    graded.reduce((s, a) => s + w(a) * gradePercent(a)!, 0) / gradedWeight;
+  const variance =
+    graded.reduce((s, a) => s + w(a) * (gradePercent(a)! - mean) ** 2, 0) /
+    gradedWeight;
+  const spread = Math.sqrt(
+    (graded.length * variance + PRIOR_COUNT * PRIOR_SPREAD ** 2) /
+      (graded.length + PRIOR_COUNT)
+  );
+
+  const remainingWeight = totalWeights - gradedWeight;
+  const fill = (avg: number) =>
+    currentMark + (remainingWeight * clamp(avg)) / 100;
+  const settledShare = totalWeights > 0 ? gradedWeight / totalWeights : 0;
+  const confidence: ProjectionConfidence =
+    settledShare >= 0.7 ? "high" : settledShare >= 0.35 ? "medium" : "low";
+
+  return {
+    expected: fill(mean),
+    best: fill(mean + spread),
+    worst: fill(mean - spread),
+    min: currentMark,
+    max: fill(100),
+    average: mean,
+    spread,
+    remainingWeight,
+    settledShare,
+    confidence,
+  };
+}
+
+// ==========================
+// Grade history
+// ==========================
+const TRACKED_FIELDS = [
+  "status",
+  "grade",
+  "pointsEarned",
+  "pointsPossible",
+  "bonusPoints",
+] as const;
+
+// Changes this close together (typing a score) replace the previous event
+const EVENT_MERGE_MS = 60_000;
+
+// `next` with an event appended when a tracked field differs from `prev`.
+// A null `prev` means the assignment is new and always gets its first event.
+export function trackChange(
+  prev: Assignment | null,
+  next: Assignment,
+  now = new Date()
+): Assignment {
+  if (
+    prev &&
+    TRACKED_FIELDS.every((k) => (prev[k] ?? null) === (next[k] ?? null))
+  )
+    return next;
+  const event: AssignmentEvent = {
+    at: now.toISOString(),
+    status: next.status,
+    grade: next.grade,
+    pointsEarned: next.pointsEarned ?? null,
+    pointsPossible: next.pointsPossible ?? null,
+    bonusPoints: next.bonusPoints ?? null,
+  };
+  const history = prev?.history ?? [];
+  const last = history[history.length - 1];
+  const merge = last && now.getTime() - Date.parse(last.at) < EVENT_MERGE_MS;
+  return {
+    ...next,
+    history: [...(merge ? history.slice(0, -1) : history), event],
+  };
+}
+
+// The course as it stood at time `t`. Assignments created later are left
+// out; ones without history (from before tracking) count as they are now.
+function courseAt(course: Course, t: number): Course {
+  return {
+    ...course,
+    assignments: course.assignments.flatMap((a) => {
+      if (!a.history?.length) return [a];
+      const event = a.history.filter((e) => Date.parse(e.at) <= t).pop();
+      if (!event) return [];
+      const { at: _at, ...state } = event;
+      return [{ ...a, ...state }];
+    }),
+  };
+}
+
+export type TimelinePoint = {
+  date: string; // YYYY-MM-DD
+  gradeSoFar: number | null;
+  currentMark: number;
+};
+
+// Grade So Far and Current Mark at the end of each day something changed
+export function gradeTimeline(course: Course): TimelinePoint[] {
+  const days = new Set<string>();
+  for (const a of course.assignments)
+    for (const e of a.history ?? []) days.add(toISODate(new Date(e.at)));
+  return [...days].sort().map((date) => {
+    const { gradeSoFar, currentMark } = calcMetrics(
+      courseAt(course, new Date(date + "T23:59:59.999").getTime())
+    );
+    return { date, gradeSoFar, currentMark };
+  });
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { buildIcs, parseIcs } from "./ics";
+import type { Course } from "./types";
+
+const course: Course = {
+  id: "c1",
+  name: "Law; Ethics, and \\ Society",
+  assignments: [
+    {
+      id: "a1",
+      title: "Essay: " + "a very long title that goes on ".repeat(4),
+      dueDate: "2026-10-02",
+      weight: 25,
+      status: "not_started",
+      grade: null,
+    },
+    {
+      id: "a2",
+      title: "Reading log",
+      dueDate: null,
+      weight: 5,
+      status: "not_started",
+      grade: null,
+    },
+  ],
+};
+
+describe("buildIcs / parseIcs", () => {
+  const text = buildIcs([course]);
+
+  it("folds long lines to 75 octets", () => {
+    const lines = text.split("\r\n");
+    expect(lines.some((l) => l.startsWith(" "))).toBe(true);
+    for (const l of lines)
+      expect(new TextEncoder().encode(l).length).toBeLessThanOrEqual(75);
+  });
+
+  it("folds by bytes without splitting characters", () => {
+    const text = buildIcs([
+      {
+        ...course,
+        name: "Études 🎓 ",
+        assignments: [{ ...course.assignments[0], title: "é🎓".repeat(40) }],
+      },
+    ]);
+    const lines = text.split("\r\n");
+    for (const l of lines) {
+      expect(new TextEncoder().encode(l).length).toBeLessThanOrEqual(75);
+      expect(l).not.toMatch(/[\uD800-\uDBFF]$|^ ?[\uDC00-\uDFFF]/);
+    }
+    expect(parseIcs(text)[0].summary).toBe(`Études 🎓 : ${"é🎓".repeat(40)}`);
+  });
+
+  it("reads back what it writes", () => {
+    const events = parseIcs(text);
+    expect(events).toEqual([
+      {
+        uid: "a1@markmate",
+        summary: `${course.name}: ${course.assignments[0].title.trim()}`,
+        description: `Course: ${course.name}\nWeight: 25.00%`,
+        date: "2026-10-02",
+        calendar: "MarkMate deadlines",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+import { addDaysISO, toISODate } from "./dates";
+import { calcMetrics } from "./grades";
+import type { Course } from "./types";
+
+// ==========================
+// iCalendar (.ics)
+// ==========================
+export type IcsEvent = {
+  uid: string | null;
+  summary: string;
+  description: string;
+  date: string | null; // ISO "YYYY-MM-DD"
+  calendar: string | null; // X-WR-CALNAME of the source calendar
+};
+
+function escapeIcsText(s: string): string {
+  return s
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+function unescapeIcsText(s: string): string {
+  return s.replace(/\\([\\;,nN])/g, (_, c: string) =>
+    c === "n" || c === "N" ? "\n" : c
+  );
+}
+
+const utf8Length = (cp: number) =>
+  cp < 0x80 ? 1 : cp < 0x800 ? 2 : cp < 0x10000 ? 3 : 4;
+
+// RFC 5545 lines are folded at 75 octets of UTF-8; continuation lines start
+// with a space (one of their 75). Never splits a character.
+function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  let part = "";
+  let octets = 0;
+  for (const ch of line) {
+    const size = utf8Length(ch.codePointAt(0)!);
+    if (octets + size > 75) {
+      parts.push(part);
+      part = "";
+      octets = 1; // the leading space
+    }
+    part += ch;
+    octets += size;
+  }
+  parts.push(part);
+  return parts.join("\r\n ");
+}
+
+const icsDate = (iso: string) => iso.replace(/-/g, "");
+
+// One all-day VEVENT per assignment that has a due date
+export function buildIcs(courses: Course[]): string {
+  const stamp =
+    new Date().toISOString().replace(/[-:]/g, "").split(".")[0] + "Z";
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//MarkMate//Assignments//EN",
+    "CALSCALE:GREGORIAN",
+    "X-WR-CALNAME:MarkMate deadlines",
+  ];
+  for (const c of courses) {
+    const weights = calcMetrics(c).weights;
+    for (const a of c.assignments) {
+      if (!a.dueDate) continue;
+      const weight = weights.get(a.id)?.weight ?? 0;
+      lines.push(
+        "BEGIN:VEVENT",
+        `UID:${a.id}@markmate`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${icsDate(a.dueDate)}`,
+        `DTEND;VALUE=DATE:${icsDate(addDaysISO(a.dueDate, 1))}`,
+        `SUMMARY:${escapeIcsText(`${c.name}: ${a.title || "Untitled"}`)}`,
+        `DESCRIPTION:${escapeIcsText(
+          `Course: ${c.name}\nWeight: ${weight.toFixed(2)}%`
+        )}`,
+        `CATEGORIES:${escapeIcsText(c.name)}`,
+        "END:VEVENT"
+      );
+    }
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+}
+
+// DTSTART as a local calendar date; UTC times are shifted to local first
+function parseIcsDate(value: string): string | null {
+  const m = value.match(
+    /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?/
+  );
+  if (!m) return null;
+  const [, y, mo, d, hh, mi, ss, utc] = m;
+  if (utc) {
+    const t = Date.UTC(+y, +mo - 1, +d, +hh, +mi, +ss);
+    return toISODate(new Date(t));
+  }
+  return `${y}-${mo}-${d}`;
+}
+
+export function parseIcs(text: string): IcsEvent[] {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const events: IcsEvent[] = [];
+  let calendar: string | null = null;
+  let current: Record<string, string> | null = null;
+
+  for (const line of lines) {
+    const idx = line.indexOf(":");
+    if (idx < 0) continue;
+    const name = line.slice(0, idx).split(";")[0].toUpperCase();
+    const value = line.slice(idx + 1);
+    if (name === "BEGIN" && value.toUpperCase() === "VEVENT") current = {};
+    else if (name === "END" && value.toUpperCase() === "VEVENT" && current) {
+      events.push({
+        uid: current.UID ?? null,
+        summary: unescapeIcsText(current.SUMMARY ?? "").trim(),
+        description: unescapeIcsText(current.DESCRIPTION ?? "").trim(),
+        date: current.DTSTART ? parseIcsDate(current.DTSTART) : null,
+        calendar,
+      });
+      current = null;
+    } else if (current) {
+      if (!(name in current)) current[name] = value;
+    } else if (name === "X-WR-CALNAME") calendar = unescapeIcsText(value);
+  }
+  return events;
+}
+
+// First "12%" / "12.5 %" found in the text, if any
+export function findPercent(text: string): number | null {
+  const m = text.match(/(\d+(?:\.\d+)?)\s*%/);
+  return m ? Number(m[1]) : null;
+}
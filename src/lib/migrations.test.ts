@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import {
+  PERSIST_MIGRATIONS,
+  PERSIST_VERSION,
+  migratePersisted,
+} from "./migrations";
+import v0 from "./__fixtures__/persisted-v0.json";
+import v1 from "./__fixtures__/persisted-v1.json";
+import corrupt from "./__fixtures__/persisted-corrupt.json";
+
+// Fresh copies, so no test sees another's changes
+const fixture = <T>(data: T): T => structuredClone(data);
+
+describe("persist migration v0 -> v1", () => {
+  const s = PERSIST_MIGRATIONS[0](fixture(v0));
+  const courses = s.courses as {
+    name: string;
+    assignments: Record<string, unknown>[];
+  }[];
+
+  it("drops entries that aren't objects and names unnamed courses", () => {
+    expect(courses.map((c) => c.name)).toEqual(["Statics", "Untitled course"]);
+    expect(courses[0].assignments).toHaveLength(2);
+  });
+
+  it("coerces loosely typed assignment fields", () => {
+    const [quiz, lab] = courses[0].assignments;
+    expect(quiz).toMatchObject({ weight: 10, grade: 87, status: "completed" });
+    expect(lab).toMatchObject({
+      title: "Lab report",
+      dueDate: null,
+      weight: 0,
+      grade: null,
+      status: "not_started",
+    });
+    expect(typeof lab.id).toBe("string");
+  });
+
+  it("fills collections added after the first release", () => {
+    expect(s).toMatchObject({ terms: [], scales: [], activeTermId: null });
+  });
+});
+
+describe("persist migration v1 -> v2", () => {
+  const s = PERSIST_MIGRATIONS[1](fixture(v1));
+  const [course] = s.courses as {
+    assignments: { status: string; history?: { status: string }[] }[];
+  }[];
+
+  it("splits completed into graded or submitted", () => {
+    expect(course.assignments.map((a) => a.status)).toEqual([
+      "graded",
+      "submitted",
+      "not_started",
+      "in_progress",
+    ]);
+  });
+
+  it("upgrades statuses in the grade history too", () => {
+    expect(course.assignments[0].history?.map((e) => e.status)).toEqual([
+      "not_started",
+      "graded",
+    ]);
+  });
+});
+
+describe("migratePersisted", () => {
+  it("runs every step from unversioned data", () => {
+    const s = migratePersisted(fixture(v0), 0);
+    expect(s.courses[0].assignments[0]).toMatchObject({
+      id: "a1",
+      weight: 10,
+      grade: 87,
+      status: "graded",
+    });
+    expect(s.terms).toEqual([]);
+    expect(s.activeTermId).toBeNull();
+  });
+
+  it("upgrades v1 data and keeps the active term", () => {
+    const s = migratePersisted(fixture(v1), 1);
+    expect(s.courses[0].assignments.map((a) => a.status)).toEqual([
+      "graded",
+      "submitted",
+      "not_started",
+      "in_progress",
+    ]);
+    expect(s.activeTermId).toBe("t1");
+  });
+
+  it("leaves current data as it is", () => {
+    const current = migratePersisted(fixture(v1), 1);
+    expect(migratePersisted(fixture(current), PERSIST_VERSION)).toEqual(
+      current
+    );
+  });
+
+  it("throws on data from a newer version", () => {
+    expect(() => migratePersisted(fixture(v1), PERSIST_VERSION + 1)).toThrow(
+      /newer version/
+    );
+  });
+
+  it("throws on data that isn't an object", () => {
+    for (const bad of [null, "course-tracker", [], 42])
+      expect(() => migratePersisted(bad, 0)).toThrow(/not an object/);
+  });
+
+  it("throws on a corrupt blob, even one saved by this version", () => {
+    for (const version of [1, PERSIST_VERSION])
+      expect(() => migratePersisted(fixture(corrupt), version)).toThrow(
+        /failed validation: courses\[0\]\.categories/
+      );
+  });
+});
@@ -0,0 +1,122 @@
+import {
+  EXPORT_SCHEMA_VERSION,
+  type ExportData,
+  isObj,
+  type Obj,
+  upgradeStatus,
+  validateExport,
+} from "./exportData";
+import { clamp, uid } from "./grades";
+
+// ==========================
+// Persisted state migrations
+// ==========================
+export const STORAGE_KEY = "course-tracker-v1";
+export const PERSIST_VERSION = 2;
+
+export type PersistedState = ExportData & { activeTermId: string | null };
+
+const asNumber = (v: unknown, fallback: number) => {
+  const n = typeof v === "string" && v.trim() !== "" ? Number(v) : v;
+  return typeof n === "number" && isFinite(n) ? n : fallback;
+};
+
+// Each step upgrades persisted state from version N to N + 1. Steps must be
+// pure and tolerate anything an older build could have written.
+export const PERSIST_MIGRATIONS: Record<number, (s: Obj) => Obj> = {
+  // v0 (unversioned): coerce loosely typed fields and fill collections
+  // added after the first release
+  0: (s) => ({
+    ...s,
+    courses: (Array.isArray(s.courses) ? s.courses : [])
+      .filter(isObj)
+      .map((c) => ({
+        ...c,
+        id: typeof c.id === "string" && c.id ? c.id : uid(),
+        name: typeof c.name === "string" ? c.name : "Untitled course",
+        assignments: (Array.isArray(c.assignments) ? c.assignments : [])
+          .filter(isObj)
+          .map((a) => {
+            const grade =
+              a.grade == null || a.grade === "" ? null : asNumber(a.grade, NaN);
+            return {
+              ...a,
+              id: typeof a.id === "string" && a.id ? a.id : uid(),
+              title: typeof a.title === "string" ? a.title : "",
+              dueDate:
+                typeof a.dueDate === "string" &&
+                /^\d{4}-\d{2}-\d{2}$/.test(a.dueDate)
+                  ? a.dueDate
+                  : null,
+              weight: Math.max(0, asNumber(a.weight, 0)),
+              status: typeof a.status === "string" ? a.status : "not_started",
+              grade: grade == null || isNaN(grade) ? null : clamp(grade),
+            };
+          }),
+      })),
+    terms: Array.isArray(s.terms) ? s.terms : [],
+    scales: Array.isArray(s.scales) ? s.scales : [],
+    activeTermId: typeof s.activeTermId === "string" ? s.activeTermId : null,
+  }),
+  // v1: "completed" splits into submitted/graded and the stored "overdue"
+  // goes away (it is derived from the due date now)
+  1: (s) => {
+    const upgrade = (o: Obj) => ({
+      ...o,
+      status:
+        upgradeStatus(o.status, o.grade != null || o.pointsEarned != null) ??
+        "not_started",
+    });
+    return {
+      ...s,
+      courses: (Array.isArray(s.courses) ? s.courses : [])
+        .filter(isObj)
+        .map((c) => ({
+          ...c,
+          assignments: (Array.isArray(c.assignments) ? c.assignments : [])
+            .filter(isObj)
+            .map((a) => ({
+              ...upgrade(a),
+              history: Array.isArray(a.history)
+                ? a.history.filter(isObj).map(upgrade)
+                : a.history,
+            })),
+        })),
+    };
+  },
+};
+
+// Run every step from `fromVersion` up to PERSIST_VERSION, then check the
+// result with the import validator. Throws if the data can't be trusted.
+export function migratePersisted(
+  state: unknown,
+  fromVersion: number
+): PersistedState {
+  if (fromVersion > PERSIST_VERSION)
+    throw new Error(
+      `saved data is from a newer version (${fromVersion}) of MarkMate`
+    );
+  if (!isObj(state)) throw new Error("saved data is not an object");
+
+  let s: Obj = state;
+  for (let v = fromVersion; v < PERSIST_VERSION; v++) {
+    const step = PERSIST_MIGRATIONS[v];
+    if (!step) throw new Error(`no migration from version ${v}`);
+    s = step(s);
+  }
+
+  const checked = validateExport({
+    ...s,
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+  });
+  if ("errors" in checked)
+    throw new Error(
+      `saved data failed validation: ${checked.errors.slice(0, 3).join("; ")}`
+    );
+  const activeTermId =
+    typeof s.activeTermId === "string" &&
+    checked.data.terms.some((t) => t.id === s.activeTermId)
+      ? s.activeTermId
+      : null;
+  return { ...checked.data, activeTermId };
+}
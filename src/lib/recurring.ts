@@ -0,0 +1,45 @@
+import { addDaysISO } from "./dates";
+import type { Assignment } from "./types";
+
+// ==========================
+// Recurring assignments
+// ==========================
+export type Recurrence = {
+  title: string; // "#" is replaced by the item number, else it is appended
+  first: number; // number of the first item, e.g. 1
+  last: number; // number of the last item, e.g. 12
+  weekday: number; // 0 = Sunday … 6 = Saturday
+  start: string; // ISO; the first item falls on `weekday` on or after this
+  everyWeeks: number; // 1 = weekly, 2 = every other week
+  weight: number; // each item, raw like Assignment.weight
+  categoryId: string | null;
+};
+
+export const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+// "Weekly Lab 1–12, every Tuesday from Sep 9" as a list of new assignments
+export function recurringAssignments(r: Recurrence): Omit<Assignment, "id">[] {
+  const offset = (r.weekday - new Date(r.start + "T00:00:00").getDay() + 7) % 7;
+  const firstDate = addDaysISO(r.start, offset);
+  const items: Omit<Assignment, "id">[] = [];
+  for (let n = r.first; n <= r.last; n++)
+    items.push({
+      title: r.title.includes("#")
+        ? r.title.replace(/#/g, String(n))
+        : `${r.title} ${n}`,
+      dueDate: addDaysISO(firstDate, (n - r.first) * 7 * r.everyWeeks),
+      weight: r.weight,
+      status: "not_started",
+      grade: null,
+      categoryId: r.categoryId,
+    });
+  return items;
+}
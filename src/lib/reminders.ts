@@ -0,0 +1,161 @@
+import { useEffect } from "react";
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import {
+  addDaysISO,
+  isDone,
+  REMINDER_OFFSETS,
+  shortDate,
+  zonedTime,
+} from "./dates";
+import { STORAGE_KEY } from "./migrations";
+import { useSettingsStore } from "./settings";
+import { useCourseStore } from "./store";
+import type { Assignment, Course, ReminderOffset, Term } from "./types";
+
+// ==========================
+// Reminders
+// ==========================
+export const REMINDER_HOUR = 9; // local time every reminder goes out
+const REMINDER_GRACE_MS = 12 * 3600_000; // older missed ones are skipped
+const REMINDER_CHECK_MS = 60_000;
+const SENT_KEEP_MS = 30 * 86400_000;
+
+// Per-device settings, so they live outside the synced course data
+interface ReminderState {
+  enabled: boolean;
+  defaults: ReminderOffset[];
+  sent: Record<string, number>; // reminder key -> when it was shown
+  setEnabled: (enabled: boolean) => void;
+  setDefaults: (defaults: ReminderOffset[]) => void;
+  markSent: (keys: string[]) => void;
+}
+
+export const useReminderStore = create<ReminderState>()(
+  persist(
+    (set) => ({
+      enabled: false,
+      defaults: ["1d", "morning"],
+      sent: {},
+      setEnabled: (enabled) => set({ enabled }),
+      setDefaults: (defaults) => set({ defaults }),
+      markSent: (keys) =>
+        set((s) => {
+          const now = Date.now();
+          const sent = Object.fromEntries(
+            Object.entries(s.sent).filter(([, at]) => now - at < SENT_KEEP_MS)
+          );
+          for (const k of keys) sent[k] = now;
+          return { sent };
+        }),
+    }),
+    { name: `${STORAGE_KEY}-reminders` }
+  )
+);
+
+// Assignment setting, else course setting, else the app default
+function effectiveReminders(
+  a: Assignment,
+  course: Course,
+  defaults: ReminderOffset[]
+): ReminderOffset[] {
+  return a.reminders ?? course.reminders ?? defaults;
+}
+
+function reminderTime(
+  dueDate: string,
+  offset: ReminderOffset,
+  timeZone: string | null
+): number {
+  const days = REMINDER_OFFSETS.find((o) => o.id === offset)!.days;
+  const hour = String(REMINDER_HOUR).padStart(2, "0");
+  return zonedTime(addDaysISO(dueDate, -days), `${hour}:00`, timeZone);
+}
+
+export type DueReminder = {
+  key: string;
+  courseId: string;
+  title: string;
+  body: string;
+};
+
+// Reminders whose time has come (within the grace window) and not yet shown.
+// The key includes the due date, so rescheduling re-arms them.
+function dueReminders(
+  courses: Course[],
+  terms: Term[],
+  defaults: ReminderOffset[],
+  sent: Record<string, number>,
+  timeZone: string | null,
+  now: number
+): DueReminder[] {
+  const out: DueReminder[] = [];
+  for (const course of courses) {
+    if (terms.find((t) => t.id === course.termId)?.archived) continue;
+    for (const a of course.assignments) {
+      if (!a.dueDate || isDone(a)) continue;
+      for (const offset of effectiveReminders(a, course, defaults)) {
+        const key = `${a.id}:${offset}:${a.dueDate}`;
+        const at = reminderTime(a.dueDate, offset, timeZone);
+        if (sent[key] || at > now || now - at > REMINDER_GRACE_MS) continue;
+        const label = REMINDER_OFFSETS.find((o) => o.id === offset)!.label;
+        out.push({
+          key,
+          courseId: course.id,
+          title: `${a.title || "Untitled"} is due ${
+            offset === "morning"
+              ? "today"
+              : offset === "1d"
+              ? "tomorrow"
+              : `on ${shortDate(a.dueDate)}`
+          }`,
+          body: `${course.name} · ${label}`,
+        });
+      }
+    }
+  }
+  return out;
+}
+
+export async function showReminder(rem: DueReminder) {
+  const options = {
+    body: rem.body,
+    tag: rem.key,
+    data: { courseId: rem.courseId },
+  };
+  const reg =
+    "serviceWorker" in navigator
+      ? await navigator.serviceWorker.getRegistration()
+      : undefined;
+  if (reg) await reg.showNotification(rem.title, options);
+  else new Notification(rem.title, options);
+}
+
+// Checks every minute while any MarkMate tab is open, including background
+// tabs; the service worker displays them and handles clicks.
+export function useReminderScheduler() {
+  const enabled = useReminderStore((s) => s.enabled);
+  useEffect(() => {
+    if (!enabled || typeof Notification === "undefined") return;
+    const check = () => {
+      if (Notification.permission !== "granted") return;
+      const { courses, terms } = useCourseStore.getState();
+      const { defaults, sent, markSent } = useReminderStore.getState();
+      const { timeZone } = useSettingsStore.getState().due;
+      const ready = dueReminders(
+        courses,
+        terms,
+        defaults,
+        sent,
+        timeZone,
+        Date.now()
+      );
+      if (ready.length === 0) return;
+      markSent(ready.map((d) => d.key));
+      ready.forEach((d) => showReminder(d).catch(() => {}));
+    };
+    check();
+    const timer = setInterval(check, REMINDER_CHECK_MS);
+    return () => clearInterval(timer);
+  }, [enabled]);
+}
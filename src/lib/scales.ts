@@ -0,0 +1,145 @@
+import { calcMetrics } from "./grades";
+import type { Course, GradeBand, GradingScale, Term } from "./types";
+
+// ==========================
+// Grading scales & GPA
+// ==========================
+export const band = (letter: string, min: number, points: number | null) => ({
+  letter,
+  min,
+  points,
+});
+
+export const BUILTIN_SCALES: GradingScale[] = [
+  {
+    id: "gpa-4.0",
+    name: "4.0 scale",
+    bands: [
+      band("A", 93, 4),
+      band("A-", 90, 3.7),
+      band("B+", 87, 3.3),
+      band("B", 83, 3),
+      band("B-", 80, 2.7),
+      band("C+", 77, 2.3),
+      band("C", 73, 2),
+      band("C-", 70, 1.7),
+      band("D+", 67, 1.3),
+      band("D", 63, 1),
+      band("D-", 60, 0.7),
+      band("F", 0, 0),
+    ],
+  },
+  {
+    id: "gpa-4.33",
+    name: "4.33 scale",
+    bands: [
+      band("A+", 97, 4.33),
+      band("A", 93, 4),
+      band("A-", 90, 3.67),
+      band("B+", 87, 3.33),
+      band("B", 83, 3),
+      band("B-", 80, 2.67),
+      band("C+", 77, 2.33),
+      band("C", 73, 2),
+      band("C-", 70, 1.67),
+      band("D+", 67, 1.33),
+      band("D", 63, 1),
+      band("D-", 60, 0.67),
+      band("F", 0, 0),
+    ],
+  },
+  {
+    id: "letter-pct",
+    name: "Percentage to letter",
+    bands: [
+      band("A", 90, null),
+      band("B", 80, null),
+      band("C", 70, null),
+      band("D", 60, null),
+      band("F", 0, null),
+    ],
+  },
+];
+
+const DEFAULT_SCALE_ID = "gpa-4.0";
+export const DEFAULT_CREDITS = 3;
+
+function findScale(custom: GradingScale[], id?: string | null): GradingScale {
+  const all = [...BUILTIN_SCALES, ...custom];
+  return (
+    all.find((s) => s.id === (id ?? DEFAULT_SCALE_ID)) ??
+    all.find((s) => s.id === DEFAULT_SCALE_ID)!
+  );
+}
+
+function letterFor(scale: GradingScale, percent: number): GradeBand | null {
+  const sorted = scale.bands.slice().sort((a, b) => b.min - a.min);
+  return (
+    sorted.find((b) => percent >= b.min) ?? sorted[sorted.length - 1] ?? null
+  );
+}
+
+// Letter grade from calcMetrics' Grade So Far (marked work only)
+export function courseLetter(course: Course, custom: GradingScale[]) {
+  const scale = findScale(custom, course.scaleId);
+  const { gradeSoFar } = calcMetrics(course);
+  return {
+    scale,
+    percent: gradeSoFar,
+    band: gradeSoFar == null ? null : letterFor(scale, gradeSoFar),
+    credits: course.credits ?? DEFAULT_CREDITS,
+  };
+}
+
+// Credit-weighted GPA over courses that have a letter with grade points
+export function calcGpa(courses: Course[], custom: GradingScale[]) {
+  let qualityPoints = 0;
+  let credits = 0;
+  for (const c of courses) {
+    const r = courseLetter(c, custom);
+    if (r.band?.points == null || r.credits <= 0) continue;
+    qualityPoints += r.band.points * r.credits;
+    credits += r.credits;
+  }
+  return { gpa: credits > 0 ? qualityPoints / credits : null, credits };
+}
+
+// Credit-weighted GPA over every course in archived (finished) terms
+export function calcCumulativeGpa(
+  courses: Course[],
+  terms: Term[],
+  custom: GradingScale[]
+) {
+  const finished = new Set(terms.filter((t) => t.archived).map((t) => t.id));
+  return calcGpa(
+    courses.filter((c) => c.termId != null && finished.has(c.termId)),
+    custom
+  );
+}
+
+// Parse "A 93 4.0" / "A, 93, 4.0" lines into bands; points are optional
+export function parseScaleTable(text: string): {
+  bands: GradeBand[];
+  errors: string[];
+} {
+  const bands: GradeBand[] = [];
+  const errors: string[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    const parts = line
+      .split(/[\s,;\t]+/)
+      .map((p) => p.trim())
+      .filter(Boolean);
+    if (parts.length === 0) return;
+    const [letter, minRaw, pointsRaw] = parts;
+    const min = Number(minRaw?.replace("%", ""));
+    const points = pointsRaw == null ? null : Number(pointsRaw);
+    if (!letter || !isFinite(min) || (points != null && !isFinite(points))) {
+      errors.push(`Line ${i + 1}: expected "LETTER MIN% [POINTS]"`);
+      return;
+    }
+    bands.push({ letter, min, points });
+  });
+  if (bands.length === 0 && errors.length === 0)
+    errors.push("Add at least one line");
+  return { bands, errors };
+}
@@ -0,0 +1,189 @@
+import { beforeAll, describe, expect, inject, it, vi } from "vitest";
+import {
+  connectServer,
+  queueEdits,
+  resolveConflict,
+  type ServerRecord,
+  syncWithServer,
+  useServerSyncStore,
+} from "./serverSync";
+import { useCourseStore } from "./store";
+import { onDataChange } from "./tabSync";
+
+declare module "vitest" {
+  export interface ProvidedContext {
+    syncServerUrl: string; // see server/test-server.mjs
+  }
+}
+
+// Node has no IndexedDB or localStorage; a Map stands in for localStorage
+vi.hoisted(() => {
+  const map = new Map<string, string>();
+  globalThis.localStorage = {
+    getItem: (k: string) => map.get(k) ?? null,
+    setItem: (k: string, v: string) => void map.set(k, v),
+    removeItem: (k: string) => void map.delete(k),
+  } as Storage;
+});
+
+const url = inject("syncServerUrl");
+const store = useCourseStore.getState;
+const sync = useServerSyncStore.getState;
+
+// Another device signed in to the same account, talking to the API directly
+let otherToken = "";
+async function other(method: string, path: string, body?: unknown) {
+  const res = await fetch(`${url}${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${otherToken}`,
+      "Content-Type": "application/json",
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return (await res.json()) as Record<string, unknown>;
+}
+async function serverRecord(key: string) {
+  const { records } = (await other("GET", "/api/changes?since=0")) as {
+    records: ServerRecord[];
+  };
+  return records.find(
+    (r) =>
+      key ===
+      (r.kind === "assignment"
+        ? `assignment:${r.courseId}:${r.id}`
+        : `${r.kind}:${r.id}`)
+  );
+}
+
+let courseId = "";
+let quizKey = "";
+const quiz = () =>
+  store().courses.find((c) => c.id === courseId)?.assignments[0];
+const setGrade = (grade: number) =>
+  store().updateAssignment(courseId, quiz()!.id, { grade, status: "graded" });
+
+beforeAll(async () => {
+  await vi.waitFor(() =>
+    expect(useCourseStore.persist.hasHydrated()).toBe(true)
+  );
+  onDataChange(queueEdits);
+  courseId = store().addCourse("Statics", null);
+  for (const title of ["Quiz", "Lab"])
+    store().addAssignment(courseId, {
+      title,
+      dueDate: null,
+      weight: 10,
+      status: "not_started",
+      grade: null,
+    });
+  quizKey = `assignment:${courseId}:${quiz()!.id}`;
+
+  await connectServer(url, "ada", "correct horse", true);
+  const res = await fetch(`${url}/api/sessions`, {
+    method: "POST",
+    body: JSON.stringify({ username: "ada", password: "correct horse" }),
+  });
+  otherToken = ((await res.json()) as { token: string }).token;
+});
+
+describe("server sync", () => {
+  it("uploads everything here after signing in", async () => {
+    expect(Object.keys(sync().pending)).toHaveLength(3);
+    await syncWithServer();
+    expect(sync()).toMatchObject({ pending: {}, conflicts: [], error: null });
+    const course = await other("GET", `/api/courses/${courseId}`);
+    expect(course).toMatchObject({
+      name: "Statics",
+      assignments: [{ title: "Quiz" }, { title: "Lab" }],
+    });
+  });
+
+  it("replays edits queued while the server was unreachable", async () => {
+    useServerSyncStore.setState({ url: "http://127.0.0.1:9" });
+    setGrade(70);
+    setGrade(75);
+    await syncWithServer();
+    expect(sync().error).not.toBeNull();
+    expect(Object.keys(sync().pending)).toEqual([quizKey]);
+
+    useServerSyncStore.setState({ url });
+    await syncWithServer();
+    expect(sync()).toMatchObject({ pending: {}, error: null });
+    expect((await serverRecord(quizKey))?.value).toMatchObject({ grade: 75 });
+    expect(sync().known[quizKey]).toBe((await serverRecord(quizKey))?.version);
+  });
+
+  it("pulls changes made on another device", async () => {
+    const record = (await serverRecord(quizKey))!;
+    await other("PUT", `/api/courses/${courseId}/assignments/${record.id}`, {
+      value: { ...record.value, title: "Quiz 1" },
+      baseVersion: record.version,
+    });
+    await syncWithServer();
+    expect(quiz()?.title).toBe("Quiz 1");
+    expect(sync().pending).toEqual({});
+  });
+
+  it("turns an edit made on both sides into a conflict", async () => {
+    const record = (await serverRecord(quizKey))!;
+    await other("PUT", `/api/courses/${courseId}/assignments/${record.id}`, {
+      value: { ...record.value, grade: 90 },
+      baseVersion: record.version,
+    });
+    setGrade(60);
+    await syncWithServer();
+    expect(sync().conflicts).toMatchObject([
+      { key: quizKey, server: { value: { grade: 90 } } },
+    ]);
+    expect(quiz()?.grade).toBe(60);
+
+    resolveConflict(quizKey, "server");
+    expect(quiz()?.grade).toBe(90);
+    expect(sync()).toMatchObject({ conflicts: [], pending: {} });
+  });
+
+  it("uploads this device's side of a conflict when kept", async () => {
+    const record = (await serverRecord(quizKey))!;
+    // Sent straight to the server, so the upload gets a 409 (no pull first)
+    const put = await other(
+      "PUT",
+      `/api/courses/${courseId}/assignments/${record.id}`,
+      { value: { ...record.value, grade: 40 }, baseVersion: record.version }
+    );
+    setGrade(95);
+    useServerSyncStore.setState({ cursor: (put.record as ServerRecord).seq });
+    await syncWithServer();
+    expect(sync().conflicts).toMatchObject([
+      { key: quizKey, server: { value: { grade: 40 } } },
+    ]);
+
+    resolveConflict(quizKey, "mine");
+    await syncWithServer();
+    expect(sync().conflicts).toEqual([]);
+    expect((await serverRecord(quizKey))?.value).toMatchObject({ grade: 95 });
+  });
+
+  it("re-creates a deleted course after undo without conflicts", async () => {
+    store().removeCourse(courseId);
+    await syncWithServer();
+    expect((await serverRecord(quizKey))?.value).toBeNull();
+
+    store().undo();
+    await syncWithServer();
+    expect(sync()).toMatchObject({ conflicts: [], pending: {}, error: null });
+    expect(await other("GET", `/api/courses/${courseId}`)).toMatchObject({
+      assignments: [{ grade: 95 }, { title: "Lab" }],
+    });
+  });
+
+  it("removes records another device deleted", async () => {
+    const record = (await serverRecord(quizKey))!;
+    await other(
+      "DELETE",
+      `/api/courses/${courseId}/assignments/${record.id}?baseVersion=${record.version}`
+    );
+    await syncWithServer();
+    expect(quiz()?.title).toBe("Lab");
+  });
+});
@@ -0,0 +1,390 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { isObj } from "./exportData";
+import { type PersistedState, STORAGE_KEY } from "./migrations";
+import { snapshotOf, useCourseStore, whenHydrated } from "./store";
+import {
+  applyExternalChanges,
+  type ChangeSource,
+  diffState,
+  onDataChange,
+  sameRecord,
+  type SyncChange,
+  syncKey,
+} from "./tabSync";
+
+// ==========================
+// Server sync
+// ==========================
+// Optional mirror of the data on a self-hosted server (server/sync-server.mjs)
+// so it follows an account between devices. Records changed here are
+// uploaded with the server version they were based on; a record changed on
+// both sides since then becomes a conflict for the user to settle. One tab
+// per browser talks to the server; the others hand it their edits over the
+// tab channel.
+export type ServerRecord = SyncChange & {
+  version: number;
+  modifiedAt: string; // ISO timestamp of the last write
+  seq: number;
+};
+
+// A record changed here that the server hasn't got yet
+type PendingRecord = {
+  kind: SyncChange["kind"];
+  id: string;
+  courseId?: string;
+  at: number; // last changed here (epoch ms)
+};
+
+// Changed here and on the server since this device last synced it
+export type SyncConflict = {
+  key: string;
+  localAt: number;
+  server: ServerRecord | null; // null: the server has never had it
+};
+
+const SERVER_SYNC_KEY = `${STORAGE_KEY}-server`;
+const SERVER_SYNC_DEBOUNCE_MS = 1500;
+const SERVER_SYNC_INTERVAL_MS = 60_000;
+
+interface ServerSyncState {
+  url: string | null; // e.g. "http://localhost:8787"
+  username: string | null;
+  token: string | null; // null = signed out
+  cursor: number; // server sequence number pulled up to
+  known: Record<string, number>; // server version each record here is based on
+  pending: Record<string, PendingRecord>;
+  conflicts: SyncConflict[];
+  lastSyncedAt: number | null;
+  busy: boolean;
+  error: string | null;
+}
+
+export const useServerSyncStore = create<ServerSyncState>()(
+  persist(
+    (): ServerSyncState => ({
+      url: null,
+      username: null,
+      token: null,
+      cursor: 0,
+      known: {},
+      pending: {},
+      conflicts: [],
+      lastSyncedAt: null,
+      busy: false,
+      error: null,
+    }),
+    {
+      name: SERVER_SYNC_KEY,
+      partialize: ({ busy: _busy, error: _error, ...saved }) => saved,
+    }
+  )
+);
+
+const EMPTY_STATE: PersistedState = {
+  courses: [],
+  scales: [],
+  terms: [],
+  activeTermId: null,
+};
+
+// Every record here by sync key
+export function localRecords() {
+  const changes = diffState(EMPTY_STATE, snapshotOf(useCourseStore.getState()));
+  return new Map(changes.map((ch) => [syncKey(ch), ch]));
+}
+
+const pendingOf = (ch: SyncChange, at: number): PendingRecord => ({
+  kind: ch.kind,
+  id: ch.id,
+  courseId: ch.kind === "assignment" ? ch.courseId : undefined,
+  at,
+});
+
+const deletionOf = (p: PendingRecord): SyncChange =>
+  p.kind === "assignment"
+    ? {
+        kind: "assignment",
+        courseId: p.courseId ?? "",
+        id: p.id,
+        index: -1,
+        value: null,
+      }
+    : { kind: p.kind, id: p.id, index: -1, value: null };
+
+export const changeOf = ({
+  version: _version,
+  modifiedAt: _modifiedAt,
+  seq: _seq,
+  ...change
+}: ServerRecord): SyncChange => change;
+
+function recordPath(p: PendingRecord) {
+  const id = encodeURIComponent(p.id);
+  if (p.kind === "assignment")
+    return `/api/courses/${encodeURIComponent(
+      p.courseId ?? ""
+    )}/assignments/${id}`;
+  return `/api/${p.kind === "course" ? "courses" : `${p.kind}s`}/${id}`;
+}
+
+async function serverFetch(method: string, path: string, body?: unknown) {
+  const { url, token } = useServerSyncStore.getState();
+  if (!url) throw new Error("No sync server set");
+  const res = await fetch(`${url}${path}`, {
+    method,
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const data: unknown =
+    res.status === 204 ? null : await res.json().catch(() => null);
+  if (res.status === 401 && token) {
+    useServerSyncStore.setState({ token: null });
+    throw new Error("The server signed this device out — sign in again");
+  }
+  return { status: res.status, data };
+}
+
+const serverError = (status: number, data: unknown) =>
+  isObj(data) && typeof data.error === "string"
+    ? data.error
+    : `Server answered ${status}`;
+
+// Sign in (or create the account) and queue everything here for upload.
+// Records the server already has with the same contents merge quietly.
+export async function connectServer(
+  url: string,
+  username: string,
+  password: string,
+  create: boolean
+) {
+  useServerSyncStore.setState({
+    url: url.trim().replace(/\/+$/, ""),
+    token: null,
+    error: null,
+  });
+  const { status, data } = await serverFetch(
+    "POST",
+    create ? "/api/accounts" : "/api/sessions",
+    { username, password }
+  );
+  if (status >= 300) throw new Error(serverError(status, data));
+  const session = data as { username: string; token: string };
+  const at = Date.now();
+  const pending: Record<string, PendingRecord> = {};
+  for (const [key, ch] of localRecords()) pending[key] = pendingOf(ch, at);
+  useServerSyncStore.setState({
+    username: session.username,
+    token: session.token,
+    cursor: 0,
+    known: {},
+    pending,
+    conflicts: [],
+    lastSyncedAt: null,
+  });
+}
+
+// Sign out; the data stays on this device
+export async function disconnectServer() {
+  await serverFetch("DELETE", "/api/sessions").catch(() => {});
+  useServerSyncStore.setState({
+    token: null,
+    username: null,
+    cursor: 0,
+    known: {},
+    pending: {},
+    conflicts: [],
+    lastSyncedAt: null,
+    error: null,
+  });
+}
+
+// Settle a conflict with this device's version (uploaded over the server's
+// on the next sync) or the server's
+export function resolveConflict(key: string, keep: "mine" | "server") {
+  const s = useServerSyncStore.getState();
+  const conflict = s.conflicts.find((c) => c.key === key);
+  if (!conflict) return;
+  const conflicts = s.conflicts.filter((c) => c !== conflict);
+  const known = { ...s.known, [key]: conflict.server?.version ?? 0 };
+  if (keep === "mine") {
+    useServerSyncStore.setState({ conflicts, known });
+    return;
+  }
+  const { [key]: mine, ...pending } = s.pending;
+  const theirs = conflict.server
+    ? changeOf(conflict.server)
+    : mine && deletionOf(mine);
+  if (theirs)
+    applyExternalChanges([theirs], { origin: "sync", viaTab: false }, false);
+  useServerSyncStore.setState({ conflicts, known, pending });
+}
+
+// Pull what changed on the server, then upload what changed here
+async function runServerSync() {
+  const get = useServerSyncStore.getState;
+  const set = useServerSyncStore.setState;
+  if (!get().token || !useCourseStore.persist.hasHydrated()) return;
+  set({ busy: true });
+  try {
+    const pulled = await serverFetch(
+      "GET",
+      `/api/changes?since=${get().cursor}`
+    );
+    if (pulled.status !== 200)
+      throw new Error(serverError(pulled.status, pulled.data));
+    const { seq, records } = pulled.data as {
+      seq: number;
+      records: ServerRecord[];
+    };
+
+    let local = localRecords();
+    const known = { ...get().known };
+    const pending = { ...get().pending };
+    const conflicts = new Map(get().conflicts.map((c) => [c.key, c]));
+    const incoming: SyncChange[] = [];
+    for (const r of records) {
+      const key = syncKey(r);
+      const mine = local.get(key)?.value ?? null;
+      const same = sameRecord(mine, r.value);
+      if (pending[key] && !same) {
+        // Unchanged there since our base: ours is simply newer
+        if (known[key] !== r.version)
+          conflicts.set(key, { key, localAt: pending[key].at, server: r });
+        continue;
+      }
+      delete pending[key];
+      conflicts.delete(key);
+      known[key] = r.version;
+      if (!same) incoming.push(changeOf(r));
+    }
+    // Courses first, so their assignments have somewhere to go
+    incoming.sort(
+      (a, b) => Number(b.kind === "course") - Number(a.kind === "course")
+    );
+    applyExternalChanges(incoming, { origin: "sync", viaTab: false }, true);
+    set({ cursor: seq, known, pending, conflicts: [...conflicts.values()] });
+
+    local = localRecords();
+    for (const [key, entry] of Object.entries(get().pending)) {
+      if (get().conflicts.some((c) => c.key === key)) continue;
+      const change = local.get(key) ?? deletionOf(entry);
+      const base = get().known[key] ?? 0;
+      const { status, data } = change.value
+        ? await serverFetch("PUT", recordPath(entry), {
+            value: change.value,
+            index: change.index,
+            baseVersion: base,
+          })
+        : await serverFetch(
+            "DELETE",
+            `${recordPath(entry)}?baseVersion=${base}`
+          );
+      const s = get();
+      // Edited again while uploading: stays queued with the newer value
+      const { [key]: sent, ...rest } = s.pending;
+      const left = sent === entry ? rest : s.pending;
+      if (status === 200) {
+        // A course delete also deletes its assignments on the server
+        const { record, cascaded = [] } = data as {
+          record: ServerRecord;
+          cascaded?: ServerRecord[];
+        };
+        const known = { ...s.known, [key]: record.version };
+        for (const r of cascaded) known[syncKey(r)] = r.version;
+        set({ known, pending: left });
+      } else if (status === 409) {
+        const current = (data as { current: ServerRecord | null }).current;
+        if (sameRecord(current?.value ?? null, change.value))
+          set({
+            known: { ...s.known, [key]: current?.version ?? 0 },
+            pending: left,
+          });
+        else
+          set({
+            conflicts: [
+              ...s.conflicts.filter((c) => c.key !== key),
+              { key, localAt: entry.at, server: current },
+            ],
+          });
+      } else throw new Error(serverError(status, data));
+    }
+    set({ busy: false, error: null, lastSyncedAt: Date.now() });
+  } catch (e) {
+    set({ busy: false, error: e instanceof Error ? e.message : String(e) });
+  }
+}
+
+let serverSyncRun: Promise<void> | null = null;
+
+// One sync at a time; a call during a sync waits for it
+export function syncWithServer() {
+  if (!serverSyncRun)
+    serverSyncRun = runServerSync().finally(() => {
+      serverSyncRun = null;
+    });
+  return serverSyncRun;
+}
+
+// Queue records edited here (in this tab or another) for the next upload
+export function queueEdits(changes: SyncChange[], source: ChangeSource | null) {
+  const s = useServerSyncStore.getState();
+  if (source?.origin === "sync" || !s.token) return;
+  const at = Date.now();
+  const pending = { ...s.pending };
+  for (const ch of changes) pending[syncKey(ch)] = pendingOf(ch, at);
+  useServerSyncStore.setState({ pending });
+}
+
+let serverSyncStarted = false;
+
+// Every tab mirrors the sync settings; the tab holding the lock (the first
+// one open) queues edits and talks to the server
+export function startServerSync() {
+  if (serverSyncStarted) return;
+  serverSyncStarted = true;
+  window.addEventListener("storage", (e) => {
+    if (e.key === SERVER_SYNC_KEY) void useServerSyncStore.persist.rehydrate();
+  });
+
+  const lead = () => {
+    void useServerSyncStore.persist.rehydrate();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const schedule = (ms = SERVER_SYNC_DEBOUNCE_MS) => {
+      clearTimeout(timer);
+      timer = setTimeout(() => void syncWithServer(), ms);
+    };
+
+    onDataChange(queueEdits);
+    // New edits, a new sign-in or a settled conflict
+    useServerSyncStore.subscribe((s, prev) => {
+      if (!s.token) return;
+      const edited = Object.keys(s.pending).some(
+        (k) => s.pending[k] !== prev.pending[k]
+      );
+      if (
+        edited ||
+        s.token !== prev.token ||
+        s.conflicts.length < prev.conflicts.length
+      )
+        schedule();
+    });
+
+    whenHydrated(() => schedule(0));
+    setInterval(() => schedule(0), SERVER_SYNC_INTERVAL_MS);
+    window.addEventListener("online", () => schedule(0));
+    document.addEventListener("visibilitychange", () => {
+      if (document.visibilityState === "visible") schedule(0);
+    });
+  };
+
+  if (navigator.locks)
+    void navigator.locks.request(
+      "markmate-server-sync",
+      () => new Promise<void>(() => lead())
+    );
+  else lead();
+}
@@ -0,0 +1,53 @@
+import { create } from "zustand";
+
+// ==========================
+// Service worker & updates
+// ==========================
+interface UpdateState {
+  waiting: ServiceWorker | null; // a new build, installed and ready
+}
+
+export const useUpdateStore = create<UpdateState>()(() => ({ waiting: null }));
+
+let swRegistered = false;
+let updateAccepted = false;
+
+// Registers public/sw.js (offline shell, reminders) and notices new builds.
+// Safe to call more than once.
+export function registerServiceWorker() {
+  if (swRegistered || !("serviceWorker" in navigator)) return;
+  swRegistered = true;
+  const sw = navigator.serviceWorker;
+  sw.register("/sw.js")
+    .then((reg) => {
+      const track = (worker: ServiceWorker | null) => {
+        if (!worker) return;
+        // Only an update if some older worker already controls the page
+        const check = () => {
+          if (worker.state === "installed" && sw.controller)
+            useUpdateStore.setState({ waiting: worker });
+        };
+        check();
+        worker.addEventListener("statechange", check);
+      };
+      track(reg.waiting);
+      reg.addEventListener("updatefound", () => track(reg.installing));
+      document.addEventListener("visibilitychange", () => {
+        if (document.visibilityState === "visible")
+          reg.update().catch(() => {});
+      });
+    })
+    .catch(() => {
+      // no offline support; reminders fall back to page notifications
+    });
+  sw.addEventListener("controllerchange", () => {
+    if (updateAccepted) window.location.reload();
+  });
+}
+
+export function applyUpdate() {
+  const { waiting } = useUpdateStore.getState();
+  if (!waiting) return;
+  updateAccepted = true;
+  waiting.postMessage({ type: "skip-waiting" });
+}
@@ -0,0 +1,23 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { DEFAULT_DUE_SETTINGS, type DueSettings } from "./dates";
+import { STORAGE_KEY } from "./migrations";
+
+// ==========================
+// Settings
+// ==========================
+// Per-device preferences, persisted next to (not inside) the course data
+interface SettingsState {
+  due: DueSettings;
+  setDue: (patch: Partial<DueSettings>) => void;
+}
+
+export const useSettingsStore = create<SettingsState>()(
+  persist(
+    (set) => ({
+      due: DEFAULT_DUE_SETTINGS,
+      setDue: (patch) => set((s) => ({ due: { ...s.due, ...patch } })),
+    }),
+    { name: `${STORAGE_KEY}-settings` }
+  )
+);
@@ -0,0 +1,146 @@
+import { create } from "zustand";
+import { todayISO } from "./dates";
+import { canonical, type ExportData } from "./exportData";
+import { uid } from "./grades";
+import { STORAGE_KEY } from "./migrations";
+import { storageBackend } from "./storage";
+import { snapshotOf, useCourseStore, whenHydrated } from "./store";
+
+// ==========================
+// Restore points
+// ==========================
+// Rolling copies of the whole data set: one a day, plus one right before
+// each JSON import, course deletion and restore. Kept next to the data in
+// the storage backend.
+export type SnapshotReason = "daily" | "import" | "delete-course" | "restore";
+
+export type Snapshot = {
+  id: string;
+  at: number; // epoch ms
+  reason: SnapshotReason;
+  label: string; // e.g. 'Before deleting "Math"'
+  data: ExportData;
+};
+
+const SNAPSHOTS_KEY = `${STORAGE_KEY}-snapshots`;
+const DAILY_SNAPSHOTS = 14;
+const EVENT_SNAPSHOTS = 20;
+const SNAPSHOT_CHECK_MS = 60 * 60_000;
+
+interface SnapshotState {
+  snapshots: Snapshot[]; // newest first
+}
+
+export const useSnapshotStore = create<SnapshotState>()(() => ({
+  snapshots: [],
+}));
+
+async function readSnapshots(): Promise<Snapshot[]> {
+  try {
+    const raw = await storageBackend.getItem(SNAPSHOTS_KEY);
+    const list: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(list) ? (list as Snapshot[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Newest DAILY_SNAPSHOTS daily copies and EVENT_SNAPSHOTS of the rest
+function pruneSnapshots(list: Snapshot[]): Snapshot[] {
+  let daily = 0;
+  let events = 0;
+  return [...list]
+    .sort((a, b) => b.at - a.at)
+    .filter((s) =>
+      s.reason === "daily"
+        ? ++daily <= DAILY_SNAPSHOTS
+        : ++events <= EVENT_SNAPSHOTS
+    );
+}
+
+const dataOf = ({ courses, terms, scales }: ExportData): ExportData => ({
+  courses,
+  terms,
+  scales,
+});
+
+const isEmptyData = (d: ExportData) =>
+  d.courses.length === 0 && d.terms.length === 0 && d.scales.length === 0;
+
+// Read-modify-write of the list, one at a time. Re-read each time so copies
+// taken in other tabs aren't lost.
+let snapshotQueue: Promise<void> = Promise.resolve();
+
+function updateSnapshots(fn: (list: Snapshot[]) => Snapshot[]) {
+  snapshotQueue = snapshotQueue.then(async () => {
+    const before = await readSnapshots();
+    const next = fn(before);
+    useSnapshotStore.setState({ snapshots: next });
+    if (next === before) return;
+    try {
+      await storageBackend.setItem(SNAPSHOTS_KEY, JSON.stringify(next));
+    } catch {
+      // Out of space: keep the newer half rather than nothing
+      const half = next.slice(0, Math.ceil(next.length / 2));
+      useSnapshotStore.setState({ snapshots: half });
+      await storageBackend
+        .setItem(SNAPSHOTS_KEY, JSON.stringify(half))
+        .catch(() => {});
+    }
+  });
+  return snapshotQueue;
+}
+
+export function takeSnapshot(
+  reason: SnapshotReason,
+  label: string,
+  data: ExportData
+) {
+  if (isEmptyData(data)) return snapshotQueue;
+  return updateSnapshots((list) =>
+    pruneSnapshots([
+      { id: uid(), at: Date.now(), reason, label, data: dataOf(data) },
+      ...list,
+    ])
+  );
+}
+
+export const loadSnapshots = () => updateSnapshots((list) => list);
+
+export const removeSnapshot = (id: string) =>
+  updateSnapshots((list) => list.filter((s) => s.id !== id));
+
+// A daily copy unless today already has one or nothing changed since the
+// newest copy
+function dailySnapshot() {
+  const data = snapshotOf(useCourseStore.getState());
+  return updateSnapshots((list) => {
+    const today = todayISO(null);
+    if (
+      isEmptyData(data) ||
+      list.some((s) => s.reason === "daily" && todayISO(null, s.at) === today)
+    )
+      return list;
+    const last = list[0];
+    if (last && canonical(last.data) === canonical(dataOf(data))) return list;
+    return pruneSnapshots([
+      {
+        id: uid(),
+        at: Date.now(),
+        reason: "daily",
+        label: "Daily copy",
+        data: dataOf(data),
+      },
+      ...list,
+    ]);
+  });
+}
+
+let snapshotsStarted = false;
+
+export function startDailySnapshots() {
+  if (snapshotsStarted) return;
+  snapshotsStarted = true;
+  whenHydrated(() => void dailySnapshot());
+  setInterval(() => void dailySnapshot(), SNAPSHOT_CHECK_MS);
+}
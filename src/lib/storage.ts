@@ -0,0 +1,274 @@
+import { create } from "zustand";
+import type { PersistStorage, StorageValue } from "zustand/middleware";
+import { type PersistedState, STORAGE_KEY } from "./migrations";
+
+// ==========================
+// Load recovery
+// ==========================
+export type RecoveryIssue = {
+  reason: string;
+  raw: string; // exactly what was in storage
+  backupKey: string; // where the copy is kept in this browser
+  backup: "saving" | "saved" | "failed"; // state of that copy
+  downloaded: boolean; // the user saved the copy as a file
+};
+
+interface RecoveryState {
+  issue: RecoveryIssue | null;
+  markDownloaded: () => void;
+  dismiss: () => void;
+}
+
+// A copy of the unreadable data exists outside the saved slot
+export const backupIsSafe = (issue: RecoveryIssue) =>
+  issue.backup === "saved" || issue.downloaded;
+
+// Set when saved data couldn't be loaded; drives the recovery prompt. Saving
+// stays off until a copy is safe and the user has picked what to do.
+export const useRecoveryStore = create<RecoveryState>()((set, get) => ({
+  issue: null,
+  markDownloaded: () =>
+    set((s) => ({ issue: s.issue && { ...s.issue, downloaded: true } })),
+  dismiss: () => {
+    const { issue } = get();
+    if (issue && !backupIsSafe(issue)) return;
+    set({ issue: null });
+    courseStorage.resume();
+  },
+}));
+
+// Keep a copy of unreadable saved data before anything overwrites it
+export function backUpUnreadableState(error: unknown) {
+  courseStorage.pause();
+  const raw = lastLoadedRaw ?? "";
+  const reason = error instanceof Error ? error.message : String(error);
+  const backupKey = `${STORAGE_KEY}-backup-${Date.now()}`;
+  const report = (backup: RecoveryIssue["backup"]) =>
+    useRecoveryStore.setState((s) => ({
+      issue: {
+        reason,
+        raw,
+        backupKey,
+        backup,
+        downloaded: s.issue?.downloaded ?? false,
+      },
+    }));
+  report("saving");
+  storageBackend.setItem(backupKey, raw).then(
+    () => report("saved"),
+    () => report("failed") // storage full: only a download can keep it
+  );
+}
+
+// ==========================
+// Storage backends
+// ==========================
+// Where the course data is saved. Values are the JSON text persist writes.
+export interface StorageBackend {
+  name: string;
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+}
+
+export const localStorageBackend: StorageBackend = {
+  name: "localStorage",
+  getItem: async (key) => localStorage.getItem(key),
+  setItem: async (key, value) => localStorage.setItem(key, value),
+  removeItem: async (key) => localStorage.removeItem(key),
+};
+
+const IDB_NAME = "markmate";
+const IDB_STORE = "kv";
+
+// Key/value pairs in a single IndexedDB object store. Data an older build
+// left under the same key in localStorage is moved over on first read.
+// Where IndexedDB can't be opened (some private modes) everything goes to
+// localStorage instead.
+export function indexedDbBackend(): StorageBackend {
+  let db: Promise<IDBDatabase> | null = null;
+  const open = () => {
+    if (!db)
+      db = new Promise((resolve, reject) => {
+        const req = indexedDB.open(IDB_NAME, 1);
+        req.onupgradeneeded = () => req.result.createObjectStore(IDB_STORE);
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      });
+    return db;
+  };
+  const read = async (key: string) => {
+    const store = (await open())
+      .transaction(IDB_STORE, "readonly")
+      .objectStore(IDB_STORE);
+    return new Promise<unknown>((resolve, reject) => {
+      const req = store.get(key);
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  };
+  // Resolves once the transaction commits, so quota errors reach the caller
+  const write = async (fn: (store: IDBObjectStore) => void) => {
+    const tx = (await open()).transaction(IDB_STORE, "readwrite");
+    fn(tx.objectStore(IDB_STORE));
+    return new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () =>
+        reject(tx.error ?? new DOMException("Write aborted", "AbortError"));
+    });
+  };
+  const usable = () =>
+    open().then(
+      () => true,
+      () => false
+    );
+
+  return {
+    name: "IndexedDB",
+    async getItem(key) {
+      if (!(await usable())) return localStorageBackend.getItem(key);
+      const value = await read(key);
+      if (typeof value === "string") return value;
+      const legacy = localStorage.getItem(key);
+      if (legacy != null) {
+        try {
+          await write((store) => store.put(legacy, key));
+          localStorage.removeItem(key);
+        } catch {
+          // Left in localStorage; the next save lands in IndexedDB
+        }
+      }
+      return legacy;
+    },
+    async setItem(key, value) {
+      if (!(await usable())) return localStorageBackend.setItem(key, value);
+      await write((store) => store.put(value, key));
+    },
+    async removeItem(key) {
+      if (!(await usable())) return localStorageBackend.removeItem(key);
+      await write((store) => store.delete(key));
+    },
+  };
+}
+
+export const storageBackend: StorageBackend =
+  typeof indexedDB === "undefined" ? localStorageBackend : indexedDbBackend();
+
+// Quiet time before a burst of edits is written, and the longest a change
+// may wait while edits keep coming
+const WRITE_DEBOUNCE_MS = 400;
+const WRITE_MAX_WAIT_MS = 2000;
+
+export type StorageIssue = { message: string; quota: boolean };
+
+interface StorageStatusState {
+  issue: StorageIssue | null; // last write failed; cleared by the next success
+}
+
+// Drives the "changes aren't being saved" banner
+export const useStorageStatusStore = create<StorageStatusState>()(() => ({
+  issue: null,
+}));
+
+// Raw text of the last load, kept for the recovery backup
+let lastLoadedRaw: string | null = null;
+
+function describeStorageError(e: unknown): StorageIssue {
+  const name = e instanceof DOMException ? e.name : "";
+  const quota =
+    name === "QuotaExceededError" ||
+    name === "NS_ERROR_DOM_QUOTA_REACHED" ||
+    (e instanceof DOMException && (e.code === 22 || e.code === 1014));
+  return {
+    quota,
+    message: quota
+      ? "This browser's storage for MarkMate is full"
+      : `Saving failed: ${e instanceof Error ? e.message : String(e)}`,
+  };
+}
+
+// persist storage that serializes and writes the latest state once edits
+// pause, instead of on every keystroke. Reads see unwritten changes. While
+// paused, changes are kept in memory only.
+export function bufferedStorage<S>(
+  backend: StorageBackend
+): PersistStorage<S> & {
+  flush: () => Promise<void>;
+  pause: () => void;
+  resume: () => void;
+} {
+  const pending = new Map<string, StorageValue<S> | null>(); // null = remove
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let firstPendingAt = 0;
+  let paused = false;
+
+  const flush = async () => {
+    if (paused) return;
+    clearTimeout(timer);
+    timer = undefined;
+    firstPendingAt = 0;
+    const batch = [...pending];
+    pending.clear();
+    for (const [key, value] of batch) {
+      try {
+        if (value) await backend.setItem(key, JSON.stringify(value));
+        else await backend.removeItem(key);
+        useStorageStatusStore.setState({ issue: null });
+      } catch (e) {
+        // Keep it for the next attempt unless a newer value arrived
+        if (!pending.has(key)) pending.set(key, value);
+        useStorageStatusStore.setState({ issue: describeStorageError(e) });
+      }
+    }
+  };
+
+  const schedule = () => {
+    if (paused) return;
+    const now = Date.now();
+    if (!firstPendingAt) firstPendingAt = now;
+    clearTimeout(timer);
+    const wait = Math.min(
+      WRITE_DEBOUNCE_MS,
+      Math.max(0, firstPendingAt + WRITE_MAX_WAIT_MS - now)
+    );
+    timer = setTimeout(() => void flush(), wait);
+  };
+
+  if (typeof window !== "undefined") {
+    window.addEventListener("pagehide", () => void flush());
+    document.addEventListener("visibilitychange", () => {
+      if (document.visibilityState === "hidden") void flush();
+    });
+  }
+
+  return {
+    async getItem(key) {
+      const unsaved = pending.get(key);
+      if (unsaved !== undefined) return unsaved;
+      const raw = await backend.getItem(key);
+      lastLoadedRaw = raw;
+      return raw == null ? null : (JSON.parse(raw) as StorageValue<S>);
+    },
+    setItem(key, value) {
+      pending.set(key, value);
+      schedule();
+    },
+    removeItem(key) {
+      pending.set(key, null);
+      schedule();
+    },
+    flush,
+    pause() {
+      paused = true;
+      clearTimeout(timer);
+      timer = undefined;
+    },
+    resume() {
+      paused = false;
+      if (pending.size > 0) schedule();
+    },
+  };
+}
+
+export const courseStorage = bufferedStorage<PersistedState>(storageBackend);
@@ -0,0 +1,75 @@
+import { describe, expect, it, vi } from "vitest";
+import corrupt from "./__fixtures__/persisted-corrupt.json";
+import { PERSIST_VERSION, STORAGE_KEY } from "./migrations";
+import { courseStorage, useRecoveryStore } from "./storage";
+import { useCourseStore } from "./store";
+
+// Node has no IndexedDB or localStorage; the store falls back to
+// localStorage, so a Map stands in for it (before the store is created)
+const saved = vi.hoisted(() => {
+  const map = new Map<string, string>();
+  globalThis.localStorage = {
+    getItem: (k: string) => map.get(k) ?? null,
+    setItem: (k: string, v: string) => void map.set(k, v),
+    removeItem: (k: string) => void map.delete(k),
+  } as Storage;
+  return map;
+});
+
+describe("loading saved data", () => {
+  const raw = JSON.stringify({ state: corrupt, version: PERSIST_VERSION });
+
+  it("rejects a corrupt blob saved at the current version", async () => {
+    saved.set(STORAGE_KEY, raw);
+    await useCourseStore.persist.rehydrate();
+    expect(useCourseStore.persist.hasHydrated()).toBe(false);
+    expect(useRecoveryStore.getState().issue).toMatchObject({
+      reason: expect.stringMatching(
+        /failed validation: courses\[0\]\.categories/
+      ),
+      raw,
+    });
+  });
+
+  it("saves nothing until the copy is kept and the user has chosen", async () => {
+    await vi.waitFor(() =>
+      expect(useRecoveryStore.getState().issue?.backup).toBe("saved")
+    );
+    const { backupKey } = useRecoveryStore.getState().issue!;
+    expect(saved.get(backupKey)).toBe(raw);
+
+    useCourseStore.getState().addCourse("Dynamics");
+    await courseStorage.flush();
+    expect(saved.get(STORAGE_KEY)).toBe(raw);
+
+    useRecoveryStore.getState().dismiss();
+    await courseStorage.flush();
+    expect(JSON.parse(saved.get(STORAGE_KEY)!).state.courses).toMatchObject([
+      { name: "Dynamics" },
+    ]);
+  });
+});
+
+describe("undo", () => {
+  it("leaves the viewed term alone", () => {
+    const store = useCourseStore.getState;
+    store().addTerm("Fall");
+    const fall = store().activeTermId;
+    store().addTerm("Spring");
+    store().addCourse("Statics");
+    store().setActiveTerm(fall);
+
+    store().undo();
+    expect(store().activeTermId).toBe(fall);
+    store().redo();
+    expect(store().activeTermId).toBe(fall);
+  });
+
+  it("falls back when the viewed term is undone away", () => {
+    const store = useCourseStore.getState;
+    const before = store().activeTermId;
+    store().addTerm("Summer");
+    store().undo();
+    expect(store().activeTermId).toBe(before);
+  });
+});
@@ -0,0 +1,582 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import {
+  applyImport,
+  cloneCourseWithNewIds,
+  type ExportData,
+  type ImportMode,
+} from "./exportData";
+import { applyWhatIf, trackChange, uid } from "./grades";
+import {
+  migratePersisted,
+  PERSIST_VERSION,
+  type PersistedState,
+  STORAGE_KEY,
+} from "./migrations";
+import { type Snapshot, takeSnapshot } from "./snapshots";
+import { backUpUnreadableState, courseStorage } from "./storage";
+import { courseFromTemplate, type CourseTemplate } from "./templates";
+import type {
+  Assignment,
+  Category,
+  Course,
+  GradingScale,
+  Term,
+  WhatIfScores,
+} from "./types";
+
+// ==========================
+// Store (Zustand + persist)
+// ==========================
+interface StoreState {
+  courses: Course[];
+  scales: GradingScale[]; // custom scales; BUILTIN_SCALES are always available
+  terms: Term[];
+  activeTermId: string | null; // term shown in CourseGrid; null = unsorted
+  addCourse: (name: string, termId?: string | null) => string; // new id
+  renameCourse: (id: string, name: string) => void;
+  setCourseTarget: (id: string, target: number | null) => void;
+  updateCourse: (
+    id: string,
+    patch: Partial<Pick<Course, "scaleId" | "credits" | "termId" | "reminders">>
+  ) => void;
+  removeCourse: (id: string) => void;
+  duplicateCourse: (id: string) => string | null; // id of the copy
+  addCourseFromTemplate: (
+    t: CourseTemplate,
+    name: string,
+    termId: string | null,
+    termStart: string
+  ) => string; // new id
+  // A new course and its imported assignments as one undo step. Imports may
+  // bring `categories` the assignments refer to.
+  addCourseWithAssignments: (
+    name: string,
+    list: Omit<Assignment, "id">[],
+    termId?: string | null,
+    categories?: Category[]
+  ) => string; // new id
+  addAssignment: (courseId: string, a: Omit<Assignment, "id">) => void;
+  addAssignments: (
+    courseId: string,
+    list: Omit<Assignment, "id">[],
+    categories?: Category[]
+  ) => void;
+  updateAssignment: (
+    courseId: string,
+    aId: string,
+    patch: Partial<Assignment>
+  ) => void;
+  removeAssignment: (courseId: string, aId: string) => void;
+  // One undo step for a multi-select action; `patch` sees each assignment
+  updateAssignments: (
+    courseId: string,
+    ids: string[],
+    patch: (a: Assignment) => Partial<Assignment>
+  ) => void;
+  removeAssignments: (courseId: string, ids: string[]) => void;
+  saveScenario: (courseId: string, name: string, scores: WhatIfScores) => void;
+  removeScenario: (courseId: string, scenarioId: string) => void;
+  applyWhatIfScores: (courseId: string, scores: WhatIfScores) => void;
+  addCategory: (courseId: string, cat: Omit<Category, "id">) => void;
+  updateCategory: (
+    courseId: string,
+    catId: string,
+    patch: Partial<Category>
+  ) => void;
+  removeCategory: (courseId: string, catId: string) => void;
+  addScale: (scale: Omit<GradingScale, "id">) => void;
+  removeScale: (id: string) => void;
+  addTerm: (name: string) => void;
+  renameTerm: (id: string, name: string) => void;
+  setTermArchived: (id: string, archived: boolean) => void;
+  removeTerm: (id: string) => void;
+  setActiveTerm: (id: string | null) => void;
+  importData: (data: ExportData, mode: ImportMode) => void;
+  restoreSnapshot: (snapshot: Snapshot) => void; // whole data set, undoable
+  past: HistoryEntry[]; // undo stack, most recent last
+  future: HistoryEntry[]; // redo stack, most recent last
+  undo: () => string | null; // label of the undone step
+  redo: () => string | null;
+}
+
+type HistoryEntry = {
+  id: string;
+  label: string; // e.g. "Delete course", shown in toasts and tooltips
+  key: string | null; // coalescing key for rapid edits to the same field
+  at: number;
+  snapshot: PersistedState; // data as it was before this step
+};
+
+const HISTORY_LIMIT = 100;
+const HISTORY_COALESCE_MS = 1000;
+
+export const snapshotOf = (s: PersistedState): PersistedState => ({
+  courses: s.courses,
+  scales: s.scales,
+  terms: s.terms,
+  activeTermId: s.activeTermId,
+});
+
+// Undo/redo restore data, not which term is being viewed: switching terms
+// isn't a step, so keep the current one unless the restored data lacks it
+const restoreStep = (
+  snapshot: PersistedState,
+  state: PersistedState
+): PersistedState => {
+  const has = (id: string | null) =>
+    id == null || snapshot.terms.some((t) => t.id === id);
+  return {
+    ...snapshot,
+    activeTermId: has(state.activeTermId)
+      ? state.activeTermId
+      : has(snapshot.activeTermId)
+      ? snapshot.activeTermId
+      : null,
+  };
+};
+
+export const useCourseStore = create<StoreState>()(
+  persist(
+    (set, get) => {
+      // Apply a data mutation as one undoable step. Steps sharing a `key`
+      // within HISTORY_COALESCE_MS merge, so typing in a field is one undo.
+      const record = (
+        label: string,
+        key: string | null,
+        fn: (state: StoreState) => Partial<StoreState>
+      ) =>
+        set((state) => {
+          const now = Date.now();
+          const last = state.past[state.past.length - 1];
+          const merge =
+            key != null &&
+            last?.key === key &&
+            now - last.at < HISTORY_COALESCE_MS;
+          const entry: HistoryEntry = {
+            id: uid(),
+            label,
+            key,
+            at: now,
+            snapshot: snapshotOf(state),
+          };
+          return {
+            ...fn(state),
+            past: merge
+              ? [...state.past.slice(0, -1), { ...last, at: now }]
+              : [...state.past, entry].slice(-HISTORY_LIMIT),
+            future: [],
+          };
+        });
+
+      return {
+        courses: [],
+        scales: [],
+        terms: [],
+        activeTermId: null,
+        past: [],
+        future: [],
+        addCourse: (name, termId) => {
+          const id = uid();
+          record("Add course", null, (state) => ({
+            courses: [
+              ...state.courses,
+              {
+                id,
+                name,
+                assignments: [],
+                termId: termId === undefined ? state.activeTermId : termId,
+              },
+            ],
+          }));
+          return id;
+        },
+        renameCourse: (id, name) =>
+          record("Rename course", `rename:${id}`, (state) => ({
+            courses: state.courses.map((c) =>
+              c.id === id ? { ...c, name } : c
+            ),
+          })),
+        setCourseTarget: (id, target) =>
+          record("Set target", `target:${id}`, (state) => ({
+            courses: state.courses.map((c) =>
+              c.id === id ? { ...c, target } : c
+            ),
+          })),
+        updateCourse: (id, patch) =>
+          record(
+            "Edit course",
+            `course:${id}:${Object.keys(patch).join()}`,
+            (state) => ({
+              courses: state.courses.map((c) =>
+                c.id === id ? { ...c, ...patch } : c
+              ),
+            })
+          ),
+        removeCourse: (id) => {
+          const course = get().courses.find((c) => c.id === id);
+          if (course)
+            void takeSnapshot(
+              "delete-course",
+              `Before deleting "${course.name}"`,
+              snapshotOf(get())
+            );
+          record("Delete course", null, (state) => ({
+            courses: state.courses.filter((c) => c.id !== id),
+          }));
+        },
+        addAssignment: (courseId, a) =>
+          record("Add assignment", null, (state) => ({
+            courses: state.courses.map((c) =>
+              c.id === courseId
+                ? {
+                    ...c,
+                    assignments: [
+                      ...c.assignments,
+                      trackChange(null, { id: uid(), ...a }),
+                    ],
+                  }
+                : c
+            ),
+          })),
+        // The copy goes right after the original
+        duplicateCourse: (id) => {
+          const course = get().courses.find((c) => c.id === id);
+          if (!course) return null;
+          const copy = {
+            ...cloneCourseWithNewIds(course),
+            name: `${course.name} (copy)`,
+          };
+          record("Duplicate course", null, (state) => {
+            const courses = [...state.courses];
+            courses.splice(courses.findIndex((c) => c.id === id) + 1, 0, copy);
+            return { courses };
+          });
+          return copy.id;
+        },
+        addCourseFromTemplate: (t, name, termId, termStart) => {
+          const course = courseFromTemplate(t, name, termId, termStart);
+          record("Add course", null, (state) => ({
+            courses: [...state.courses, course],
+          }));
+          return course.id;
+        },
+        addCourseWithAssignments: (name, list, termId, categories = []) => {
+          const id = uid();
+          record("Add course", null, (state) => ({
+            courses: [
+              ...state.courses,
+              {
+                id,
+                name,
+                assignments: list.map((a) =>
+                  trackChange(null, { id: uid(), ...a })
+                ),
+                categories,
+                termId: termId === undefined ? state.activeTermId : termId,
+              },
+            ],
+          }));
+          return id;
+        },
+        addAssignments: (courseId, list, categories = []) =>
+          record("Add assignments", null, (state) => ({
+            courses: state.courses.map((c) =>
+              c.id === courseId
+                ? {
+                    ...c,
+                    categories: categories.length
+                      ? [...(c.categories ?? []), ...categories]
+                      : c.categories,
+                    assignments: [
+                      ...c.assignments,
+                      ...list.map((a) =>
+                        trackChange(null, { id: uid(), ...a })
+                      ),
+                    ],
+                  }
+                : c
+            ),
+          })),
+        updateAssignment: (courseId, aId, patch) =>
+          record(
+            "Edit assignment",
+            `assignment:${aId}:${Object.keys(patch).sort().join()}`,
+            (state) => ({
+              courses: state.courses.map((c) =>
+                c.id === courseId
+                  ? {
+                      ...c,
+                      assignments: c.assignments.map((a) =>
+                        a.id === aId ? trackChange(a, { ...a, ...patch }) : a
+                      ),
+                    }
+                  : c
+              ),
+            })
+          ),
+        removeAssignment: (courseId, aId) =>
+          record("Delete assignment", null, (state) => ({
+            courses: state.courses.map((c) =>
+              c.id === courseId
+                ? {
+                    ...c,
+                    assignments: c.assignments.filter((a) => a.id !== aId),
+                  }
+                : c
+            ),
+          })),
+        updateAssignments: (courseId, ids, patch) =>
+          record("Edit assignments", null, (state) => ({
+            courses: state.courses.map((c) =>
+              c.id === courseId
+                ? {
+                    ...c,
+                    assignments: c.assignments.map((a) =>
+                      ids.includes(a.id)
+                        ? trackChange(a, { ...a, ...patch(a) })
+                        : a
+                    ),
+                  }
+                : c
+            ),
+          })),
+        removeAssignments: (courseId, ids) =>
+          record("Delete assignments", null, (state) => ({
+            courses: state.courses.map((c) =>
+              c.id === courseId
+                ? {
+                    ...c,
+                    assignments: c.assignments.filter(
+                      (a) => !ids.includes(a.id)
+                    ),
+                  }
+                : c
+            ),
+          })),
+        // Saving under an existing name overwrites that scenario
+        saveScenario: (courseId, name, scores) =>
+          record("Save scenario", null, (state) => ({
+            courses: state.courses.map((c) => {
+              if (c.id !== courseId) return c;
+              const list = c.scenarios ?? [];
+              const same = list.find(
+                (sc) => sc.name.toLowerCase() === name.toLowerCase()
+              );
+              return {
+                ...c,
+                scenarios: same
+                  ? list.map((sc) => (sc === same ? { ...sc, scores } : sc))
+                  : [...list, { id: uid(), name, scores }],
+              };
+            }),
+          })),
+        removeScenario: (courseId, scenarioId) =>
+          record("Delete scenario", null, (state) => ({
+            courses: state.courses.map((c) =>
+              c.id === courseId
+                ? {
+                    ...c,
+                    scenarios: (c.scenarios ?? []).filter(
+                      (sc) => sc.id !== scenarioId
+                    ),
+                  }
+                : c
+            ),
+          })),
+        applyWhatIfScores: (courseId, scores) =>
+          record("Apply what-if grades", null, (state) => ({
+            courses: state.courses.map((c) =>
+              c.id === courseId
+                ? {
+                    ...c,
+                    assignments: applyWhatIf(c, scores).assignments.map(
+                      (a, i) => trackChange(c.assignments[i], a)
+                    ),
+                  }
+                : c
+            ),
+          })),
+        addCategory: (courseId, cat) =>
+          record("Add category", null, (state) => ({
+            courses: state.courses.map((c) =>
+              c.id === courseId
+                ? {
+                    ...c,
+                    categories: [
+                      ...(c.categories ?? []),
+                      { id: uid(), ...cat },
+                    ],
+                  }
+                : c
+            ),
+          })),
+        updateCategory: (courseId, catId, patch) =>
+          record(
+            "Edit category",
+            `category:${catId}:${Object.keys(patch).join()}`,
+            (state) => ({
+              courses: state.courses.map((c) =>
+                c.id === courseId
+                  ? {
+                      ...c,
+                      categories: (c.categories ?? []).map((k) =>
+                        k.id === catId ? { ...k, ...patch } : k
+                      ),
+                    }
+                  : c
+              ),
+            })
+          ),
+        // Members of a removed category fall back to their own weight
+        removeCategory: (courseId, catId) =>
+          record("Delete category", null, (state) => ({
+            courses: state.courses.map((c) =>
+              c.id === courseId
+                ? {
+                    ...c,
+                    categories: (c.categories ?? []).filter(
+                      (k) => k.id !== catId
+                    ),
+                    assignments: c.assignments.map((a) =>
+                      a.categoryId === catId ? { ...a, categoryId: null } : a
+                    ),
+                  }
+                : c
+            ),
+          })),
+        addScale: (scale) =>
+          record("Add grading scale", null, (state) => ({
+            scales: [...state.scales, { id: uid(), ...scale }],
+          })),
+        // Courses on a removed scale fall back to the default one
+        removeScale: (id) =>
+          record("Delete grading scale", null, (state) => ({
+            scales: state.scales.filter((k) => k.id !== id),
+            courses: state.courses.map((c) =>
+              c.scaleId === id ? { ...c, scaleId: null } : c
+            ),
+          })),
+        addTerm: (name) =>
+          record("Add term", null, (state) => {
+            const id = uid();
+            return {
+              terms: [...state.terms, { id, name, archived: false }],
+              activeTermId: id,
+            };
+          }),
+        renameTerm: (id, name) =>
+          record("Rename term", `term:${id}`, (state) => ({
+            terms: state.terms.map((t) => (t.id === id ? { ...t, name } : t)),
+          })),
+        setTermArchived: (id, archived) =>
+          record("Archive term", null, (state) => ({
+            terms: state.terms.map((t) =>
+              t.id === id ? { ...t, archived } : t
+            ),
+          })),
+        // Courses of a removed term become unsorted rather than deleted
+        removeTerm: (id) =>
+          record("Delete term", null, (state) => ({
+            terms: state.terms.filter((t) => t.id !== id),
+            courses: state.courses.map((c) =>
+              c.termId === id ? { ...c, termId: null } : c
+            ),
+            activeTermId: state.activeTermId === id ? null : state.activeTermId,
+          })),
+        setActiveTerm: (id) => set({ activeTermId: id }),
+        undo: () => {
+          const entry = get().past[get().past.length - 1];
+          if (!entry) return null;
+          set((state) => ({
+            ...restoreStep(entry.snapshot, state),
+            past: state.past.slice(0, -1),
+            future: [
+              ...state.future,
+              { ...entry, snapshot: snapshotOf(state) },
+            ],
+          }));
+          return entry.label;
+        },
+        redo: () => {
+          const entry = get().future[get().future.length - 1];
+          if (!entry) return null;
+          set((state) => ({
+            ...restoreStep(entry.snapshot, state),
+            future: state.future.slice(0, -1),
+            past: [...state.past, { ...entry, snapshot: snapshotOf(state) }],
+          }));
+          return entry.label;
+        },
+        importData: (data, mode) => {
+          void takeSnapshot("import", "Before import", snapshotOf(get()));
+          record("Import", null, (state) => {
+            const next = applyImport(
+              {
+                courses: state.courses,
+                terms: state.terms,
+                scales: state.scales,
+              },
+              data,
+              mode
+            );
+            const activeOk =
+              state.activeTermId == null ||
+              next.terms.some((t) => t.id === state.activeTermId);
+            return {
+              ...next,
+              activeTermId: activeOk ? state.activeTermId : null,
+            };
+          });
+        },
+        restoreSnapshot: (snapshot) => {
+          void takeSnapshot(
+            "restore",
+            `Before restoring ${new Date(snapshot.at).toLocaleString()}`,
+            snapshotOf(get())
+          );
+          record("Restore", null, (state) => {
+            const { courses, terms, scales } = snapshot.data;
+            const activeOk =
+              state.activeTermId == null ||
+              terms.some((t) => t.id === state.activeTermId);
+            return {
+              courses,
+              terms,
+              scales,
+              activeTermId: activeOk ? state.activeTermId : null,
+            };
+          });
+        },
+      };
+    },
+    {
+      name: STORAGE_KEY,
+      storage: courseStorage,
+      // History is per-session; only the data itself is saved
+      partialize: (s) => snapshotOf(s),
+      version: PERSIST_VERSION,
+      migrate: (state, version) => migratePersisted(state, version),
+      // Checked on every load, not only after a version change, so damaged
+      // data saved by this version also reaches the recovery prompt
+      merge: (persisted, current) =>
+        persisted == null
+          ? current
+          : { ...current, ...migratePersisted(persisted, PERSIST_VERSION) },
+      onRehydrateStorage: () => (_state, error) => {
+        if (error) backUpUnreadableState(error);
+      },
+    }
+  )
+);
+
+// Run `fn` once saved data has loaded (IndexedDB reads are async)
+export function whenHydrated(fn: () => void) {
+  if (useCourseStore.persist.hasHydrated()) fn();
+  else {
+    const unsub = useCourseStore.persist.onFinishHydration(() => {
+      unsub();
+      fn();
+    });
+  }
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { normalizeWeightToPercent } from "./grades";
+import { parseSyllabus } from "./syllabus";
+
+describe("parseSyllabus", () => {
+  it("keeps small percent weights as percents", () => {
+    const rows = parseSyllabus(
+      "Quiz 1 – 1% – Sep 12\nParticipation – 0.5%\nFinal exam – 40% – Dec 12",
+      2026
+    );
+    expect(rows.map((r) => normalizeWeightToPercent(r.weight ?? 0))).toEqual([
+      1, 0.5, 40,
+    ]);
+  });
+
+  it("reads month/day dates without a year", () => {
+    const rows = parseSyllabus(
+      "Problem Set 3 (10%) due 9/30\nExam\t30%\t1/15",
+      2026
+    );
+    expect(rows).toMatchObject([
+      { title: "Problem Set 3", dueDate: "2026-09-30" },
+      { title: "Exam", dueDate: "2027-01-15" },
+    ]);
+  });
+});
@@ -0,0 +1,145 @@
+import { detectWeightFormat, normalizeDecimal } from "./csv";
+import { addDaysISO, isoFromParts, parseLooseDate } from "./dates";
+import { clamp, percentWeight } from "./grades";
+
+// ==========================
+// Syllabus parsing
+// ==========================
+export type SyllabusRow = {
+  line: number; // 1-based line in the pasted text
+  title: string;
+  weight: number | null; // raw like Assignment.weight (1% is 0.01)
+  dueDate: string | null; // "YYYY-MM-DD"
+};
+
+// Cells of a copied table (tabs, "|" or runs of spaces) or the parts of a
+// line like "Assignment 1 – 10% – due Sep 30"
+function syllabusCells(line: string): string[] {
+  const trimmed = line.trim().replace(/^\||\|$/g, "");
+  const sep = trimmed.includes("\t")
+    ? /\t+/
+    : trimmed.includes("|")
+    ? /\s*\|\s*/
+    : /\s+[–—-]+\s+|\s*;\s*|\s{3,}/;
+  return trimmed
+    .split(sep)
+    .map((c) => c.trim())
+    .filter(Boolean);
+}
+
+const MONTH_NAME =
+  "(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)";
+// "2026-09-30", "9/30/26", "9/30", "Sep 30[, 2026]"; day-first "30 Sep" is only
+// tried when none of these appear, so "Set 1 Sep 12" reads as Sep 12
+const DATE_PREFIX = "\\b(?:due\\s+(?:on\\s+)?)?";
+const DATE_IN_TEXT = new RegExp(
+  `${DATE_PREFIX}(?:\\d{4}-\\d{1,2}-\\d{1,2}|\\d{1,2}[/.]\\d{1,2}[/.]\\d{2,4}|\\d{1,2}/\\d{1,2}|${MONTH_NAME}\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?(?:,?\\s+\\d{4})?)\\b`,
+  "i"
+);
+const DAY_FIRST_DATE = new RegExp(
+  `${DATE_PREFIX}\\d{1,2}\\s+${MONTH_NAME}\\.?(?:,?\\s+\\d{4})?\\b`,
+  "i"
+);
+const DATE_WORDS = /^(?:due(?:\s+date)?|date|deadline|on|by)\b[:\s]*/i;
+const PERCENT_IN_TEXT = /(\d+(?:\.\d+)?)\s*%/;
+const NUMBER_CELL = /^(?:weight:?\s*)?(\d+(?:\.\d+)?)$/i;
+// "9/30" without a year takes `year`, like "Sep 30"
+const SHORT_DATE = /^(\d{1,2})\/(\d{1,2})(?![/\d])/;
+
+// A date cell ("due Sep 30", "2026-09-30", "9/30"); month names must be
+// real ones so titles like "Marketing 2" stay titles
+function syllabusDate(cell: string, year: number) {
+  const s = cell.replace(DATE_WORDS, "");
+  const short = s.match(SHORT_DATE);
+  if (short) return isoFromParts(year, +short[1], +short[2]);
+  return DATE_IN_TEXT.test(s) || DAY_FIRST_DATE.test(s)
+    ? parseLooseDate(s, year)
+    : null;
+}
+
+// One row per line that has a title plus a weight or a date. Header rows,
+// totals and prose are skipped. Weights are read like normalizeWeightToPercent
+// but per list: all values within 0..1 (and no "%") means fractions.
+export function parseSyllabus(
+  text: string,
+  year = new Date().getFullYear()
+): SyllabusRow[] {
+  const raw: {
+    line: number;
+    title: string;
+    weight: string;
+    date: string | null;
+    hasYear: boolean;
+  }[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (/^\s*\|?[\s:|-]+\|?\s*$/.test(line)) return; // markdown rule
+    const cells = syllabusCells(normalizeDecimal(line));
+    // Weight: a "%" cell, else the last bare number
+    const weightCell =
+      cells.find((c) => PERCENT_IN_TEXT.test(c)) ??
+      [...cells].reverse().find((c) => NUMBER_CELL.test(c));
+    let weight = "";
+    if (weightCell) {
+      const pct = weightCell.match(PERCENT_IN_TEXT);
+      weight = pct ? `${pct[1]}%` : weightCell.match(NUMBER_CELL)![1];
+    }
+    const rest = cells.filter((c) => c !== weightCell);
+    let dateCell = rest.find((c) => syllabusDate(c, year)) ?? "";
+    let date = dateCell ? syllabusDate(dateCell, year) : null;
+    let title =
+      rest.find((c) => c !== dateCell && /[a-z]/i.test(c)) ??
+      (cells.length === 1 ? cells[0] : "");
+
+    // A single run of text: pull the percent and date out of it
+    if (cells.length === 1) {
+      title = title.replace(PERCENT_IN_TEXT, " ");
+      const due = title.match(DATE_IN_TEXT) ?? title.match(DAY_FIRST_DATE);
+      const d = due && syllabusDate(due[0], year);
+      if (due && d) {
+        date = d;
+        dateCell = due[0];
+        title = title.replace(due[0], " ");
+      }
+    }
+    title = title
+      .replace(/\(\s*\)/g, "")
+      .replace(/\s*[–—:,-]+\s*$|^\s*[–—:,-]+\s*/g, "")
+      .replace(/\s{2,}/g, " ")
+      .trim();
+    if (!title || (!weight && !date) || /^total\b/i.test(title)) return;
+    raw.push({
+      line: i + 1,
+      title,
+      weight,
+      date,
+      hasYear: /\b\d{4}\b|\d{1,2}[/.]\d{1,2}[/.]\d{2}/.test(dateCell),
+    });
+  });
+
+  const fractions = detectWeightFormat(raw.map((r) => r.weight)) === "fraction";
+  // Dates without a year run in order; one far before the previous date
+  // belongs to the next year (a term spanning New Year)
+  let prev: string | null = null;
+  return raw.map((r) => {
+    let dueDate = r.date;
+    if (dueDate && !r.hasYear && prev && dueDate < addDaysISO(prev, -60))
+      dueDate = isoFromParts(
+        Number(dueDate.slice(0, 4)) + 1,
+        Number(dueDate.slice(5, 7)),
+        Number(dueDate.slice(8, 10))
+      );
+    if (dueDate) prev = dueDate;
+    const n = r.weight ? Number(r.weight.replace("%", "")) : null;
+    return {
+      line: r.line,
+      title: r.title,
+      weight:
+        n == null || !isFinite(n)
+          ? null
+          : percentWeight(
+              clamp(r.weight.includes("%") || !fractions ? n : n * 100)
+            ),
+      dueDate,
+    };
+  });
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import type { PersistedState } from "./migrations";
+import { applyChanges, diffState } from "./tabSync";
+import type { Assignment, Course } from "./types";
+
+const item = (id: string, grade: number | null = null): Assignment => ({
+  id,
+  title: id,
+  dueDate: null,
+  weight: 10,
+  status: grade == null ? "not_started" : "graded",
+  grade,
+});
+
+const course = (id: string, assignments: Assignment[]): Course => ({
+  id,
+  name: id,
+  assignments,
+});
+
+const state = (...courses: Course[]): PersistedState => ({
+  courses,
+  terms: [{ id: "t1", name: "Fall", archived: false }],
+  scales: [],
+  activeTermId: "t1",
+});
+
+describe("diffState / applyChanges", () => {
+  const base = state(
+    course("c1", [item("a1"), item("a2")]),
+    course("c2", [item("b1")])
+  );
+
+  it("reports only the records that changed", () => {
+    const next = {
+      ...base,
+      courses: [
+        { ...base.courses[0], assignments: [item("a1", 90), item("a2")] },
+        base.courses[1],
+      ],
+    };
+    expect(diffState(base, next)).toEqual([
+      {
+        kind: "assignment",
+        courseId: "c1",
+        id: "a1",
+        index: 0,
+        value: item("a1", 90),
+      },
+    ]);
+  });
+
+  it("sends a new course and then each of its assignments", () => {
+    const next = {
+      ...base,
+      courses: [...base.courses, course("c3", [item("x")])],
+    };
+    expect(diffState(base, next).map((ch) => `${ch.kind}:${ch.id}`)).toEqual([
+      "course:c3",
+      "assignment:x",
+    ]);
+  });
+
+  it("keeps edits to different records from two tabs", () => {
+    const mine = {
+      ...base,
+      courses: [
+        { ...base.courses[0], assignments: [item("a1", 70), item("a2")] },
+        base.courses[1],
+      ],
+    };
+    const theirs = {
+      ...base,
+      courses: [
+        { ...base.courses[0], assignments: [item("a1"), item("a2", 85)] },
+        base.courses[1],
+      ],
+    };
+    const merged = applyChanges(mine, diffState(base, theirs));
+    expect(merged.courses[0].assignments.map((a) => a.grade)).toEqual([70, 85]);
+  });
+
+  it("applies deletions and clears a deleted active term", () => {
+    const next = { ...base, courses: [base.courses[0]], terms: [] };
+    const out = applyChanges(base, diffState(base, next));
+    expect(out.courses.map((c) => c.id)).toEqual(["c1"]);
+    expect(out.activeTermId).toBeNull();
+  });
+
+  it("drops assignment changes for a course that's gone", () => {
+    const out = applyChanges(state(), [
+      {
+        kind: "assignment",
+        courseId: "c1",
+        id: "a1",
+        index: 0,
+        value: item("a1"),
+      },
+    ]);
+    expect(out.courses).toEqual([]);
+  });
+});
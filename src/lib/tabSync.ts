@@ -0,0 +1,306 @@
+import { create } from "zustand";
+import { canonical } from "./exportData";
+import { uid } from "./grades";
+import type { PersistedState } from "./migrations";
+import { snapshotOf, useCourseStore, whenHydrated } from "./store";
+import type { Assignment, Course, GradingScale, Term } from "./types";
+
+// ==========================
+// Cross-tab sync
+// ==========================
+// Open tabs send each other record-level changes over a BroadcastChannel,
+// so edits to different assignments in two tabs both survive. When two tabs
+// change the same record, the later edit wins everywhere (ties go to the
+// higher tab id).
+const SYNC_CHANNEL = "markmate-sync";
+const TAB_ID = uid();
+
+type SyncStamp = { at: number; tab: string };
+
+// One changed record and its position in the sender's list; null = deleted
+export type SyncChange =
+  | {
+      kind: "course";
+      id: string;
+      index: number;
+      value: Omit<Course, "assignments"> | null;
+    }
+  | {
+      kind: "assignment";
+      courseId: string;
+      id: string;
+      index: number;
+      value: Assignment | null;
+    }
+  | { kind: "term"; id: string; index: number; value: Term | null }
+  | { kind: "scale"; id: string; index: number; value: GradingScale | null };
+
+// "edit": someone edited the data; "sync": it arrived from the server or in
+// another tab's full state, so there is nothing new to upload
+type ChangeOrigin = "edit" | "sync";
+
+type SyncMessage =
+  | {
+      type: "changes";
+      from: string;
+      stamp: SyncStamp;
+      origin: ChangeOrigin;
+      changes: SyncChange[];
+    }
+  | { type: "hello"; from: string }
+  | {
+      type: "state";
+      from: string;
+      to: string;
+      state: PersistedState;
+      stamps: [string, SyncStamp][];
+    };
+
+export const syncKey = (ch: SyncChange) =>
+  ch.kind === "assignment"
+    ? `assignment:${ch.courseId}:${ch.id}`
+    : `${ch.kind}:${ch.id}`;
+
+const isNewer = (a: SyncStamp, b: SyncStamp) =>
+  a.at > b.at || (a.at === b.at && a.tab > b.tab);
+
+const courseFields = ({ assignments: _, ...rest }: Course) => rest;
+
+export const sameRecord = (a: unknown, b: unknown) =>
+  a === b || canonical(a) === canonical(b);
+
+// Records added, changed or removed between two states. A new course is
+// followed by each of its assignments.
+export function diffState(
+  prev: PersistedState,
+  next: PersistedState
+): SyncChange[] {
+  const out: SyncChange[] = [];
+  const diff = <T extends { id: string }>(
+    before: T[],
+    after: T[],
+    emit: (id: string, index: number, value: T | null) => void
+  ) => {
+    const old = new Map(before.map((x) => [x.id, x]));
+    after.forEach((x, index) => {
+      const was = old.get(x.id);
+      old.delete(x.id);
+      if (!was || !sameRecord(was, x)) emit(x.id, index, x);
+    });
+    for (const id of old.keys()) emit(id, -1, null);
+  };
+  diff(prev.terms, next.terms, (id, index, value) =>
+    out.push({ kind: "term", id, index, value })
+  );
+  diff(prev.scales, next.scales, (id, index, value) =>
+    out.push({ kind: "scale", id, index, value })
+  );
+  const oldCourses = new Map(prev.courses.map((c) => [c.id, c]));
+  next.courses.forEach((c, index) => {
+    const was = oldCourses.get(c.id);
+    oldCourses.delete(c.id);
+    if (was === c) return;
+    if (!was || !sameRecord(courseFields(was), courseFields(c)))
+      out.push({ kind: "course", id: c.id, index, value: courseFields(c) });
+    diff(was?.assignments ?? [], c.assignments, (id, i, value) =>
+      out.push({ kind: "assignment", courseId: c.id, id, index: i, value })
+    );
+  });
+  for (const id of oldCourses.keys())
+    out.push({ kind: "course", id, index: -1, value: null });
+  return out;
+}
+
+// Replace, insert (at the sender's position) or delete one record by id
+function putRecord<T extends { id: string }>(
+  list: T[],
+  id: string,
+  index: number,
+  value: T | null
+): T[] {
+  const at = list.findIndex((x) => x.id === id);
+  if (!value) return at < 0 ? list : list.filter((x) => x.id !== id);
+  if (at >= 0) return list.map((x, i) => (i === at ? value : x));
+  const out = [...list];
+  out.splice(Math.min(index, out.length), 0, value);
+  return out;
+}
+
+// `state` with `changes` applied. Assignment changes for a course that no
+// longer exists here are dropped.
+export function applyChanges<S extends PersistedState>(
+  state: S,
+  changes: SyncChange[]
+): S {
+  let { courses, terms, scales } = state;
+  for (const ch of changes) {
+    if (ch.kind === "term") terms = putRecord(terms, ch.id, ch.index, ch.value);
+    else if (ch.kind === "scale")
+      scales = putRecord(scales, ch.id, ch.index, ch.value);
+    else if (ch.kind === "course") {
+      const assignments =
+        courses.find((c) => c.id === ch.id)?.assignments ?? [];
+      courses = putRecord(
+        courses,
+        ch.id,
+        ch.index,
+        ch.value && { ...ch.value, assignments }
+      );
+    } else
+      courses = courses.map((c) =>
+        c.id === ch.courseId
+          ? {
+              ...c,
+              assignments: putRecord(c.assignments, ch.id, ch.index, ch.value),
+            }
+          : c
+      );
+  }
+  const activeTermId = terms.some((t) => t.id === state.activeTermId)
+    ? state.activeTermId
+    : null;
+  return { ...state, courses, terms, scales, activeTermId };
+}
+
+interface SyncState {
+  changed: string[]; // course ids another tab changed since they were viewed
+  seen: (courseId: string) => void;
+}
+
+export const useSyncStore = create<SyncState>()((set) => ({
+  changed: [],
+  seen: (courseId) =>
+    set((s) => ({ changed: s.changed.filter((id) => id !== courseId) })),
+}));
+
+// Where the update being applied came from; null while it is this tab's own
+export type ChangeSource = { origin: ChangeOrigin; viaTab: boolean };
+let applyingFrom: ChangeSource | null = null;
+
+// Apply changes made elsewhere without an undo step. Undo/redo snapshots get
+// the same changes, so undo only reverts this tab's own steps.
+export function applyExternalChanges(
+  changes: SyncChange[],
+  source: ChangeSource,
+  notify: boolean
+) {
+  if (changes.length === 0) return;
+  applyingFrom = source;
+  try {
+    useCourseStore.setState((s) => ({
+      ...applyChanges(snapshotOf(s), changes),
+      past: s.past.map((e) => ({
+        ...e,
+        snapshot: applyChanges(e.snapshot, changes),
+      })),
+      future: s.future.map((e) => ({
+        ...e,
+        snapshot: applyChanges(e.snapshot, changes),
+      })),
+    }));
+  } finally {
+    applyingFrom = null;
+  }
+  if (notify) {
+    const ids = changes.map((ch) =>
+      ch.kind === "assignment" ? ch.courseId : ch.id
+    );
+    useSyncStore.setState((s) => ({
+      changed: [...new Set([...s.changed, ...ids])],
+    }));
+  }
+}
+
+// Calls `fn` with the records each data update touched (after loading)
+export function onDataChange(
+  fn: (changes: SyncChange[], source: ChangeSource | null) => void
+) {
+  return useCourseStore.subscribe((state, prev) => {
+    if (!useCourseStore.persist.hasHydrated()) return;
+    if (
+      state.courses === prev.courses &&
+      state.terms === prev.terms &&
+      state.scales === prev.scales
+    )
+      return;
+    const changes = diffState(snapshotOf(prev), snapshotOf(state));
+    if (changes.length > 0) fn(changes, applyingFrom);
+  });
+}
+
+let syncStarted = false;
+
+// Starts syncing with other open tabs once saved data has loaded. A tab
+// that opens (or wakes from the back/forward cache) asks the others for
+// their state, since saves reach storage with a short delay.
+export function startTabSync() {
+  if (syncStarted || typeof BroadcastChannel === "undefined") return;
+  syncStarted = true;
+  const channel = new BroadcastChannel(SYNC_CHANNEL);
+  const post = (msg: SyncMessage) => channel.postMessage(msg);
+  const stamps = new Map<string, SyncStamp>(); // latest edit seen per record
+
+  // Keep the changes that are newer than what this tab has; returns them
+  const accept = (
+    changes: SyncChange[],
+    stampOf: (key: string) => SyncStamp | undefined
+  ) =>
+    changes.filter((ch) => {
+      const key = syncKey(ch);
+      const theirs = stampOf(key);
+      const mine = stamps.get(key);
+      if (mine && !(theirs && isNewer(theirs, mine))) return false;
+      if (theirs) stamps.set(key, theirs);
+      return true;
+    });
+
+  const join = () => post({ type: "hello", from: TAB_ID });
+
+  channel.onmessage = (e: MessageEvent<SyncMessage>) => {
+    const msg = e.data;
+    if (msg.from === TAB_ID || !useCourseStore.persist.hasHydrated()) return;
+    if (msg.type === "hello")
+      post({
+        type: "state",
+        from: TAB_ID,
+        to: msg.from,
+        state: snapshotOf(useCourseStore.getState()),
+        stamps: [...stamps],
+      });
+    else if (msg.type === "state" && msg.to === TAB_ID) {
+      const theirs = new Map(msg.stamps);
+      const changes = diffState(
+        snapshotOf(useCourseStore.getState()),
+        msg.state
+      );
+      applyExternalChanges(
+        accept(changes, (key) => theirs.get(key) ?? { at: 0, tab: msg.from }),
+        { origin: "sync", viaTab: true },
+        false
+      );
+    } else if (msg.type === "changes")
+      applyExternalChanges(
+        accept(msg.changes, () => msg.stamp),
+        { origin: msg.origin, viaTab: true },
+        true
+      );
+  };
+
+  onDataChange((changes, source) => {
+    if (source?.viaTab) return;
+    const stamp = { at: Date.now(), tab: TAB_ID };
+    for (const ch of changes) stamps.set(syncKey(ch), stamp);
+    post({
+      type: "changes",
+      from: TAB_ID,
+      stamp,
+      origin: source?.origin ?? "edit",
+      changes,
+    });
+  });
+
+  whenHydrated(join);
+  window.addEventListener("pageshow", (e) => {
+    if (e.persisted) join();
+  });
+}
@@ -0,0 +1,196 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { addDaysISO, startOfWeekISO } from "./dates";
+import { isObj, makeReader } from "./exportData";
+import { trackChange, uid } from "./grades";
+import { STORAGE_KEY } from "./migrations";
+import type { Category, Course } from "./types";
+
+// ==========================
+// Course templates
+// ==========================
+// A course's structure without any results, kept per device and shared as
+// files. Due dates are stored relative to the term: days from the Sunday of
+// the first week, so each item keeps its week of term and weekday.
+export type TemplateAssignment = {
+  title: string;
+  weight: number; // raw like Assignment.weight
+  category: number | null; // index into CourseTemplate.categories
+  dueOffset: number | null; // days from the first week's Sunday, or undated
+};
+
+export type CourseTemplate = {
+  id: string;
+  name: string;
+  savedAt: string; // ISO timestamp
+  credits: number | null;
+  scaleId: string | null;
+  categories: Omit<Category, "id">[];
+  assignments: TemplateAssignment[];
+};
+
+const TEMPLATE_FORMAT = "markmate-course-templates";
+
+export type TemplateFile = {
+  format: typeof TEMPLATE_FORMAT;
+  version: 1;
+  templates: CourseTemplate[];
+};
+
+const daysBetween = (from: string, to: string) =>
+  Math.round(
+    (Date.parse(to + "T00:00:00Z") - Date.parse(from + "T00:00:00Z")) /
+      86400_000
+  );
+
+// Structure of `course` with dates relative to the week of `termStart`
+export function courseTemplate(
+  course: Course,
+  name: string,
+  termStart: string
+): CourseTemplate {
+  const cats = course.categories ?? [];
+  const week = startOfWeekISO(termStart);
+  return {
+    id: uid(),
+    name,
+    savedAt: new Date().toISOString(),
+    credits: course.credits ?? null,
+    scaleId: course.scaleId ?? null,
+    categories: cats.map(({ id: _, ...k }) => k),
+    assignments: course.assignments.map((a) => {
+      const ci = cats.findIndex((k) => k.id === a.categoryId);
+      return {
+        title: a.title,
+        weight: a.weight,
+        category: ci < 0 ? null : ci,
+        dueOffset: a.dueDate ? daysBetween(week, a.dueDate) : null,
+      };
+    }),
+  };
+}
+
+// A new, ungraded course laid out from `t` for a term starting `termStart`
+export function courseFromTemplate(
+  t: CourseTemplate,
+  name: string,
+  termId: string | null,
+  termStart: string
+): Course {
+  const week = startOfWeekISO(termStart);
+  const categories = t.categories.map((k) => ({ ...k, id: uid() }));
+  return {
+    id: uid(),
+    name,
+    termId,
+    credits: t.credits,
+    scaleId: t.scaleId,
+    categories,
+    assignments: t.assignments.map((a) =>
+      trackChange(null, {
+        id: uid(),
+        title: a.title,
+        dueDate: a.dueOffset == null ? null : addDaysISO(week, a.dueOffset),
+        weight: a.weight,
+        status: "not_started",
+        grade: null,
+        categoryId: a.category == null ? null : categories[a.category]?.id,
+      })
+    ),
+  };
+}
+
+export const buildTemplateFile = (
+  templates: CourseTemplate[]
+): TemplateFile => ({
+  format: TEMPLATE_FORMAT,
+  version: 1,
+  templates,
+});
+
+// Checks a shared template file; imported templates get fresh ids
+export function parseTemplateFile(
+  raw: unknown
+): { templates: CourseTemplate[] } | { errors: string[] } {
+  if (!isObj(raw) || raw.format !== TEMPLATE_FORMAT)
+    return { errors: ["file: not a MarkMate template file"] };
+  if (raw.version !== 1) return { errors: ["file: made by a newer MarkMate"] };
+  const errors: string[] = [];
+  const r = makeReader(errors);
+  const templates = r
+    .list(raw, "templates", "file")
+    .map((v, ti): CourseTemplate => {
+      const path = `templates[${ti}]`;
+      const o = r.obj(v, path);
+      const categories = r
+        .list(o, "categories", path)
+        .map((k, ki): Omit<Category, "id"> => {
+          const kp = `${path}.categories[${ki}]`;
+          const ko = r.obj(k, kp);
+          return {
+            name: r.str(ko, "name", kp),
+            weight: r.num(ko, "weight", kp) ?? 0,
+            dropLowest: r.num(ko, "dropLowest", kp, true) ?? 0,
+            bestOf: r.num(ko, "bestOf", kp, true),
+            weighting: ko.weighting === "points" ? "points" : "equal",
+          };
+        });
+      const assignments = r
+        .list(o, "assignments", path)
+        .map((a, ai): TemplateAssignment => {
+          const ap = `${path}.assignments[${ai}]`;
+          const ao = r.obj(a, ap);
+          const weight = r.num(ao, "weight", ap);
+          if (weight != null && weight < 0)
+            r.fail(`${ap}.weight`, "must be ≥ 0");
+          const category = r.num(ao, "category", ap, true);
+          if (category != null && !categories[category])
+            r.fail(`${ap}.category`, `no category #${category}`);
+          const dueOffset = r.num(ao, "dueOffset", ap, true);
+          return {
+            title: r.str(ao, "title", ap),
+            weight: weight ?? 0,
+            category,
+            dueOffset: dueOffset == null ? null : Math.round(dueOffset),
+          };
+        });
+      return {
+        id: uid(),
+        name: r.str(o, "name", path),
+        savedAt: r.str(o, "savedAt", path, true) || new Date().toISOString(),
+        credits: r.num(o, "credits", path, true),
+        scaleId: o.scaleId == null ? null : r.str(o, "scaleId", path),
+        categories,
+        assignments,
+      };
+    });
+  return errors.length ? { errors } : { templates };
+}
+
+// Per-device library; saving under an existing name replaces that template
+interface TemplateState {
+  templates: CourseTemplate[];
+  saveTemplates: (list: CourseTemplate[]) => void;
+  removeTemplate: (id: string) => void;
+}
+
+export const useTemplateStore = create<TemplateState>()(
+  persist(
+    (set) => ({
+      templates: [],
+      saveTemplates: (list) =>
+        set((s) => {
+          const names = new Set(list.map((t) => t.name.toLowerCase()));
+          return {
+            templates: [
+              ...s.templates.filter((t) => !names.has(t.name.toLowerCase())),
+              ...list,
+            ],
+          };
+        }),
+      removeTemplate: (id) =>
+        set((s) => ({ templates: s.templates.filter((t) => t.id !== id) })),
+    }),
+    { name: `${STORAGE_KEY}-templates` }
+  )
+);
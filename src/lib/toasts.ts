@@ -0,0 +1,52 @@
+import { create } from "zustand";
+import { uid } from "./grades";
+import { useCourseStore } from "./store";
+
+// ==========================
+// Toasts
+// ==========================
+export type Toast = {
+  id: string;
+  message: string;
+  action?: { label: string; run: () => void };
+};
+
+interface ToastState {
+  toasts: Toast[];
+  push: (t: Omit<Toast, "id">) => void;
+  dismiss: (id: string) => void;
+}
+
+const TOAST_MS = 6000;
+
+export const useToastStore = create<ToastState>()((set, get) => ({
+  toasts: [],
+  push: (t) => {
+    const id = uid();
+    set((s) => ({ toasts: [...s.toasts, { id, ...t }].slice(-3) }));
+    setTimeout(() => get().dismiss(id), TOAST_MS);
+  },
+  dismiss: (id) =>
+    set((s) => ({ toasts: s.toasts.filter((t) => t.id !== id) })),
+}));
+
+// Toast offering to undo the step that was just recorded. It only undoes
+// while that step is still the latest, so later edits are never rolled back.
+export function toastUndo(message: string) {
+  const { past } = useCourseStore.getState();
+  const entry = past[past.length - 1];
+  useToastStore.getState().push({
+    message,
+    action: entry && {
+      label: "Undo",
+      run: () => {
+        const { past, undo } = useCourseStore.getState();
+        if (past[past.length - 1]?.id === entry.id) undo();
+        else
+          useToastStore.getState().push({
+            message: "Other changes came after this — use Undo in the top bar",
+          });
+      },
+    },
+  });
+}
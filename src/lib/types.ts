@@ -0,0 +1,87 @@
+import type { ScoreFields } from "./grades";
+
+// ==========================
+// Types
+// ==========================
+// Workflow only; "overdue" is derived from the due date (see isOverdue)
+export type AssignmentStatus =
+  | "not_started"
+  | "in_progress"
+  | "submitted"
+  | "graded";
+
+export type DisplayStatus = AssignmentStatus | "overdue";
+
+export type Assignment = {
+  id: string;
+  title: string;
+  dueDate: string | null; // ISO "YYYY-MM-DD" or null
+  weight: number; // user may enter 0–1 or 0–100; we normalize
+  status: AssignmentStatus;
+  grade: number | null; // 0–100, used when no points are recorded
+  pointsEarned?: number | null; // e.g. 43.5 of "43.5 / 50"
+  pointsPossible?: number | null; // e.g. 50; when set, the percent is derived
+  bonusPoints?: number | null; // extra credit on top of pointsEarned
+  categoryId?: string | null; // null/missing = stands alone with its own weight
+  history?: AssignmentEvent[]; // grade/status changes, oldest first
+  reminders?: ReminderOffset[] | null; // null/missing = course setting
+};
+
+// State of an assignment right after a grade or status change
+export type AssignmentEvent = {
+  at: string; // ISO timestamp
+  status: AssignmentStatus;
+} & ScoreFields;
+
+export type CategoryWeighting = "equal" | "points";
+
+export type Category = {
+  id: string;
+  name: string;
+  weight: number; // share of the course, 0–1 or 0–100 like Assignment.weight
+  dropLowest: number; // drop this many lowest graded items
+  bestOf: number | null; // count only the best N, or null for all
+  weighting: CategoryWeighting; // "points": members split by points possible
+};
+
+export type Course = {
+  id: string;
+  name: string;
+  assignments: Assignment[];
+  categories?: Category[];
+  target?: number | null; // desired final mark 0–100, or unset
+  scaleId?: string | null; // GradingScale id; null/missing = DEFAULT_SCALE_ID
+  credits?: number | null; // credit hours for GPA; null/missing = DEFAULT_CREDITS
+  termId?: string | null; // owning Term; null/missing = unsorted
+  scenarios?: Scenario[]; // saved what-if scenarios
+  reminders?: ReminderOffset[] | null; // null/missing = app default
+};
+
+export type ReminderOffset = "3d" | "1d" | "morning";
+
+// Hypothetical scores keyed by assignment id (what-if sandbox)
+export type WhatIfScores = Record<string, ScoreFields>;
+
+export type Scenario = {
+  id: string;
+  name: string;
+  scores: WhatIfScores;
+};
+
+export type Term = {
+  id: string;
+  name: string; // e.g. "Fall 2026"
+  archived: boolean; // finished terms count toward cumulative GPA
+};
+
+export type GradeBand = {
+  letter: string;
+  min: number; // lowest percent that earns this letter
+  points: number | null; // grade points, or null for letter-only tables
+};
+
+export type GradingScale = {
+  id: string;
+  name: string;
+  bands: GradeBand[]; // any order; matched from the highest min down
+};
@@ -1,7 +1,51 @@
-import { defineConfig } from "vite";
+/// <reference types="vitest/config" />
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react";
 
+// Public files the service worker caches along with the built bundle
+const PUBLIC_SHELL = [
+  "/manifest.webmanifest",
+  "/icons/icon.svg",
+  "/icons/icon-192.png",
+  "/icons/icon-512.png",
+  "/icons/maskable-512.png",
+  "/icons/apple-touch-icon.png",
+];
+
+// Emits sw-manifest.js for public/sw.js: every built file to precache and a
+// version that changes with them, so a new build shows up as an update.
+function precacheManifest(): Plugin {
+  return {
+    name: "markmate-precache-manifest",
+    apply: "build",
+    enforce: "post",
+    generateBundle(_options, bundle) {
+      const files = Object.keys(bundle).filter((f) => !/\.map$/.test(f));
+      const index = bundle["index.html"];
+      const seed =
+        files.sort().join("\n") +
+        (index?.type === "asset" ? String(index.source) : "");
+      let hash = 5381; // djb2
+      for (let i = 0; i < seed.length; i++)
+        hash = ((hash << 5) + hash + seed.charCodeAt(i)) | 0;
+      const manifest = {
+        version: (hash >>> 0).toString(36),
+        files: ["/", ...files.map((f) => `/${f}`), ...PUBLIC_SHELL],
+      };
+      this.emitFile({
+        type: "asset",
+        fileName: "sw-manifest.js",
+        source: `self.__PRECACHE = ${JSON.stringify(manifest)};\n`,
+      });
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheManifest()],
+  test: {
+    // A sync server for the app's sync tests (see server/test-server.mjs)
+    globalSetup: ["server/test-server.mjs"],
+  },
 });